@@ -3,4 +3,7 @@ export const DUNGEON_CONSTANTS = {
   CELL_SIZE: 48, // Size of grid cells for pathfinding
   CONNECTOR_SIZE: 8, // Size of door/connection markers
   SECONDARY_OFFSET: 30, // Offset for secondary connection paths
+  SHIP_WIDTH: 11, // Default ship width in cells
+  MIN_SHIP_WIDTH: 3, // Narrowest ship that can be generated, in cells
+  MIN_LIFT_DECKS: 3, // Fewest decks a lift shaft can span
 } as const;
@@ -1,4 +1,16 @@
 import { PRNG } from './prng';
+import { DiceExpressions } from './diceExpression';
+import type { DiceExpression, DiceExpressionResult } from './diceExpression';
+import { TABLE_REFERENCE_REGEX } from './tableRegistry';
+import { DiceAnalysis } from './diceAnalysis';
+import type { DistributionAnalysis, OutcomeTableAnalysis } from './diceAnalysis';
+import type { RollLog } from './rollLog';
+import type { TableRegistry, TableResolution } from './tableRegistry';
+
+/**
+ * The deepest chain of table references that will be followed
+ */
+export const MAX_TABLE_DEPTH = 8;
 
 /**
  * Represents the result of a dice roll
@@ -24,6 +36,8 @@ export interface OutcomeRange<T = string> {
  * In this example, rolling 1-9 gives "Critical failure", 10-19 gives "Success", and 20 gives "Critical success"
  * 
  * The generic type T allows for complex outcome types beyond just strings
+ * String outcomes can hold dice templates such as "2D10 Survivors", which
+ * rollWithDynamicOutcome rolls only when that outcome is selected
  * 
  * Note: The first entry in the outcomes object MUST be at the minimum possible value (0 or 1)
  */
@@ -34,24 +48,68 @@ export interface OutcomeTable<T = string> {
 }
 
 /**
- * A class for handling dice rolls using the PRNG singleton
+ * A class for handling dice rolls using an injected PRNG
+ * Each part of the generator rolls with its own Dice, so adding a roll in
+ * one place doesn't change the results anywhere else.
  * Example usage:
- * Dice.roll(6, 2)    // Roll 2d6, returns { total: 7, rolls: [3, 4] }
- * Dice.roll(20)      // Roll 1d20, returns { total: 15, rolls: [15] }
- * Dice.d(6)          // Roll 1d6, returns just the number (e.g., 4)
+ * const dice = new Dice(new PRNG(seed).fork('layout'));
+ * const loggedDice = new Dice(rng.fork('layout'), rollLog, 'layout'); // Records every roll in rollLog
+ * dice.roll(6, 2)    // Roll 2d6, returns { total: 7, rolls: [3, 4] }
+ * dice.roll(20)      // Roll 1d20, returns { total: 15, rolls: [15] }
+ * dice.d(6)          // Roll 1d6, returns just the number (e.g., 4)
+ * dice.rollFromNotation('4d6kh3+2') // Evaluate a dice expression, with a breakdown of each die
+ *
+ * Outcome tables and dice notation are handled by static helpers,
+ * since building and reading them doesn't need any randomness.
  */
 export class Dice {
+  private rng: PRNG;
+  private log?: RollLog;
+  private stream?: string;
+
+  /**
+   * @param rng The random number generator every roll is taken from
+   * @param log Where to record each roll (optional)
+   * @param stream The name recorded with each roll, usually the name the rng was forked with
+   */
+  constructor(rng: PRNG, log?: RollLog, stream?: string) {
+    this.rng = rng;
+    this.log = log;
+    this.stream = stream;
+  }
+
+  /**
+   * Runs a function with an extra context entry in the roll log, so the
+   * rolls it makes are recorded as being for that purpose (e.g. "deck count")
+   * @returns Whatever the function returns
+   */
+  public within<T>(context: string, fn: () => T): T {
+    return this.log ? this.log.within(context, fn) : fn();
+  }
+
   /**
    * Rolls dice with the specified number of sides and quantity
    * @param sides The number of sides on each die
    * @param quantity The number of dice to roll (default: 1)
    * @param minValue The minimum value on each die (default: 1)
    * @returns An object containing the total and individual roll results
-   * @throws Error if PRNG singleton hasn't been initialized
    */
-  public static roll(sides: number, quantity: number = 1, minValue: number = 1): DiceRollResult {
-    const rng = PRNG.getInstance();
+  public roll(sides: number, quantity: number = 1, minValue: number = 1): DiceRollResult {
+    const result = this.rollDice(sides, quantity, minValue);
+    this.log?.record({
+      stream: this.stream,
+      kind: 'roll',
+      notation: Dice.formatRoll(sides, quantity, minValue),
+      rolls: result.rolls,
+      total: result.total
+    });
+    return result;
+  }
 
+  /**
+   * Rolls dice without recording them, for rolls that are recorded as part of a table or expression
+   */
+  private rollDice(sides: number, quantity: number, minValue: number): DiceRollResult {
     if (sides < 1) throw new Error('Dice must have at least 1 side');
     if (quantity < 1) throw new Error('Must roll at least 1 die');
     if (minValue < 0) throw new Error('Minimum value cannot be negative');
@@ -59,7 +117,7 @@ export class Dice {
 
     const rolls: number[] = [];
     for (let i = 0; i < quantity; i++) {
-      rolls.push(rng.nextInt(minValue, minValue + sides - 1));
+      rolls.push(this.rng.nextInt(minValue, minValue + sides - 1));
     }
 
     return {
@@ -73,9 +131,8 @@ export class Dice {
    * @param sides The number of sides on the die
    * @param minValue The minimum value on the die (default: 1)
    * @returns The result of the roll
-   * @throws Error if PRNG singleton hasn't been initialized
    */
-  public static d(sides: number, minValue: number = 1): number {
+  public d(sides: number, minValue: number = 1): number {
     return this.roll(sides, 1, minValue).total;
   }
 
@@ -83,13 +140,70 @@ export class Dice {
    * Rolls dice and returns an outcome based on the provided outcome table
    * @param table The outcome table to use for determining the result
    * @returns The outcome corresponding to the roll result
-   * @throws Error if PRNG singleton hasn't been initialized or if no matching outcome is found
+   * @throws Error if no matching outcome is found
    */
-  public static rollWithOutcome<T = string>(table: OutcomeTable<T>): T {
+  public rollWithOutcome<T = string>(table: OutcomeTable<T>): T {
+    return this.rollTable(table).outcome;
+  }
+
+  /**
+   * Rolls on an outcome table and records the roll along with the entry it selected
+   * @param table The outcome table to roll on
+   * @param name The table's name, if it has one
+   */
+  private rollTable<T>(table: OutcomeTable<T>, name?: string): { roll: number; outcome: T } {
     // Infer the minimum value from the outcomes
-    const minValue = this.inferMinValue(table.outcomes);
-    const result = this.roll(table.sides, table.quantity, minValue);
-    return this.getOutcome(result.total, table);
+    const minValue = Dice.inferMinValue(table.outcomes);
+    const result = this.rollDice(table.sides, table.quantity, minValue);
+    const outcome = Dice.getOutcome(result.total, table);
+
+    this.log?.record({
+      stream: this.stream,
+      kind: 'table',
+      notation: Dice.formatRoll(table.sides, table.quantity, minValue),
+      rolls: result.rolls,
+      total: result.total,
+      table: name,
+      outcome: Dice.describeOutcome(outcome)
+    });
+
+    return { roll: result.total, outcome };
+  }
+
+  /**
+   * Evaluates a parsed expression and records it
+   */
+  private evaluate(expression: DiceExpression): DiceExpressionResult {
+    const result = DiceExpressions.evaluate(expression, sides => this.rollDice(sides, 1, 1).total);
+
+    this.log?.record({
+      stream: this.stream,
+      kind: 'expression',
+      notation: result.expression,
+      rolls: result.groups.flatMap(group => group.rolls.map(roll => roll.value)),
+      total: result.total,
+      breakdown: result.breakdown
+    });
+
+    return result;
+  }
+
+  /**
+   * Writes a plain roll as dice notation, noting the face range when dice don't start at 1
+   */
+  private static formatRoll(sides: number, quantity: number, minValue: number): string {
+    const notation = `${quantity}d${sides}`;
+    return minValue === 1 ? notation : `${notation} (${minValue}-${minValue + sides - 1})`;
+  }
+
+  /**
+   * Describes a table outcome for the roll log, using its name if it has one
+   */
+  private static describeOutcome(outcome: unknown): string {
+    if (typeof outcome === 'object' && outcome !== null && 'name' in outcome) {
+      return String(outcome.name);
+    }
+    return String(outcome);
   }
 
   /**
@@ -97,7 +211,7 @@ export class Dice {
    * @param outcomes The outcomes object
    * @returns The inferred minimum value (0 or 1)
    */
-  private static inferMinValue<T>(outcomes: Record<number, T>): number {
+  public static inferMinValue<T>(outcomes: Record<number, T>): number {
     const keys = Object.keys(outcomes).map(Number);
     return keys.some(key => key === 0) ? 0 : 1;
   }
@@ -212,8 +326,10 @@ export class Dice {
   }
 
   /**
-   * Parses a string containing dice notation (e.g., "4D10 Containers of Ore") and replaces
-   * the dice notation with actual rolled values.
+   * Parses a string containing dice expressions (e.g., "4D10 Containers of Ore") and replaces
+   * each expression with its rolled total.
+   * Embedded expressions must start with a dice group and can't contain spaces,
+   * so "1d100[+]", "2d6+3" and "1d10*10" are all rolled but "2D10 - 3" only rolls the 2D10.
    * 
    * @param text The string containing dice notation to parse and roll
    * @returns The string with dice notation replaced by actual rolled values
@@ -222,19 +338,21 @@ export class Dice {
    * "4D10 Containers of Ore" might return "27 Containers of Ore"
    * "You find 2D6 gold and 1D4 silver" might return "You find 8 gold and 3 silver"
    */
-  public static parseAndRollDynamicString(text: string): string {
-    // Regular expression to match dice notation: XdY or XDY where X and Y are numbers
-    // Captures: group 1 = quantity (X), group 2 = sides (Y)
-    const diceRegex = /(\d+)[dD](\d+)/g;
-
-    // Replace all instances of dice notation with rolled values
-    return text.replace(diceRegex, (match, quantity, sides) => {
-      const quantityNum = parseInt(quantity, 10);
-      const sidesNum = parseInt(sides, 10);
-
-      // Roll the dice and return the total
-      const result = this.roll(sidesNum, quantityNum);
-      return result.total.toString();
+  public parseAndRollDynamicString(text: string): string {
+    // Candidate expressions: a dice group followed by any characters an expression can contain.
+    // The longest prefix that parses is rolled, and anything after it is left as text.
+    const candidateRegex = /(?<![\w])\d*[dD](?:\d+|%)[\w%+\-*/()[\]!]*/g;
+
+    return text.replace(candidateRegex, (candidate) => {
+      for (let end = candidate.length; end > 0; end--) {
+        const expression = Dice.tryParse(candidate.slice(0, end));
+        if (expression && DiceExpressions.hasDice(expression)) {
+          const result = this.evaluate(expression);
+          return result.total.toString() + candidate.slice(end);
+        }
+      }
+
+      return candidate;
     });
   }
 
@@ -244,7 +362,7 @@ export class Dice {
    * @param table The outcome table to use for determining the result
    * @returns The outcome string with any dice notation replaced by actual rolled values
    */
-  public static rollWithDynamicOutcome(table: OutcomeTable<string>): string {
+  public rollWithDynamicOutcome(table: OutcomeTable<string>): string {
     // First get the basic outcome string from the table
     const outcomeString = this.rollWithOutcome(table);
 
@@ -253,47 +371,100 @@ export class Dice {
   }
 
   /**
-   * Parses a dice notation string (e.g., "2d6", "3D10") into quantity and sides
-   * @param notation The dice notation string to parse
-   * @returns An object containing the quantity, sides, and optional minimum value
-   * @throws Error if the notation is invalid
+   * Rolls on a named table and resolves any [[table]] references in the outcome,
+   * rolling on each referenced table in turn
+   * 
+   * @param name The name of the table to roll on
+   * @param registry The tables that can be rolled on and referenced
+   * @returns The resolution tree, with dice notation rolled at every level
+   * @throws Error if a table is unknown, references itself (directly or through
+   *         other tables) or the references go deeper than MAX_TABLE_DEPTH
    */
-  public static parseDiceNotation(notation: string): { quantity: number; sides: number; minValue?: number } {
-    // Regular expression to match dice notation: XdY or XDY where X and Y are numbers
-    // Optionally matches +Z or -Z for minimum value adjustment
-    const diceRegex = /^(\d+)[dD](\d+)(?:([+-])(\d+))?$/;
-    const match = notation.match(diceRegex);
-
-    if (!match) {
-      throw new Error(`Invalid dice notation: ${notation}. Expected format like "2d6" or "3D10+1"`);
+  public rollOnTable(name: string, registry: TableRegistry): TableResolution {
+    return this.resolveTable(name, registry, []);
+  }
+
+  private resolveTable(name: string, registry: TableRegistry, chain: string[]): TableResolution {
+    if (chain.includes(name)) {
+      throw new Error(`Table reference cycle: ${[...chain, name].join(' → ')}`);
+    }
+    if (chain.length >= MAX_TABLE_DEPTH) {
+      throw new Error(`Table references nested more than ${MAX_TABLE_DEPTH} deep: ${[...chain, name].join(' → ')}`);
     }
 
-    const quantity = parseInt(match[1], 10);
-    const sides = parseInt(match[2], 10);
-
-    // Handle optional minimum value adjustment
-    let minValue = 1; // Default minimum value
-    if (match[3] && match[4]) {
-      const adjustment = parseInt(match[4], 10);
-      if (match[3] === '+') {
-        minValue += adjustment;
-      } else if (match[3] === '-') {
-        minValue -= adjustment;
-        if (minValue < 0) minValue = 0;
+    const { roll, outcome } = this.rollTable(registry.get(name), name);
+    const children: TableResolution[] = [];
+
+    // Dice notation is rolled in the text between references, while each
+    // reference is replaced by its label or by the referenced table's result
+    let text = '';
+    let lastIndex = 0;
+    for (const match of outcome.matchAll(TABLE_REFERENCE_REGEX)) {
+      const [reference, referencedName, label] = match;
+      text += this.parseAndRollDynamicString(outcome.slice(lastIndex, match.index));
+
+      const child = this.resolveTable(referencedName.trim(), registry, [...chain, name]);
+      if (label !== undefined) {
+        child.label = label;
       }
+      children.push(child);
+
+      text += label ?? child.text;
+      lastIndex = (match.index ?? 0) + reference.length;
     }
+    text += this.parseAndRollDynamicString(outcome.slice(lastIndex));
 
-    return { quantity, sides, minValue };
+    return { table: name, roll, outcome, text, children };
   }
 
   /**
-   * Rolls dice based on a dice notation string
-   * @param notation The dice notation string (e.g., "2d6", "3D10")
-   * @returns An object containing the total and individual roll results
-   * @throws Error if the notation is invalid or PRNG singleton hasn't been initialized
+   * Parses a dice expression (e.g., "2d6+3", "4d6kh3", "1d100[+]")
+   * @param notation The dice expression to parse
+   * @returns The parsed expression
+   * @throws Error if the notation is invalid
+   */
+  public static parseDiceNotation(notation: string): DiceExpression {
+    return DiceExpressions.parse(notation);
+  }
+
+  /**
+   * Parses a dice expression, returning null instead of throwing if it is invalid
+   */
+  private static tryParse(notation: string): DiceExpression | null {
+    try {
+      return DiceExpressions.parse(notation);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Evaluates a dice expression
+   * @param notation The dice expression (e.g., "2d6+3", "1d10*10", "4d6kh3")
+   * @returns The total, the kept die values and a breakdown of every roll
+   * @throws Error if the notation is invalid
+   */
+  public rollFromNotation(notation: string): DiceExpressionResult {
+    return this.evaluate(Dice.parseDiceNotation(notation));
+  }
+
+  /**
+   * Works out the exact probability distribution of a dice expression
+   * @param notation The dice expression (e.g., "2d6+3", "4d6kh3", "1d100[-]")
+   * @returns The distribution along with its mean, variance and percentiles
+   * @throws Error if the notation is invalid or can't be analysed exactly
+   */
+  public static analyze(notation: string): DistributionAnalysis {
+    return DiceAnalysis.analyzeExpression(Dice.parseDiceNotation(notation));
+  }
+
+  /**
+   * Works out the chance of each outcome in a table coming up
+   * Tables with an entry at 0 are read as 0-indexed dice, the same way rollWithOutcome rolls them.
+   * @param table The outcome table to analyse
+   * @returns The probability of each entry, and any unreachable entries or rolls without an outcome
    */
-  public static rollFromNotation(notation: string): DiceRollResult {
-    const { quantity, sides, minValue } = this.parseDiceNotation(notation);
-    return this.roll(sides, quantity, minValue || 1);
+  public static analyzeTable<T>(table: OutcomeTable<T>): OutcomeTableAnalysis<T> {
+    return DiceAnalysis.analyzeTable(table, Dice.inferMinValue(table.outcomes));
   }
 }
@@ -0,0 +1,371 @@
+import type { DiceExpression, DiceGroup, KeepMode } from './diceExpression';
+import type { OutcomeTable } from './dice';
+
+/**
+ * One possible result of a roll and its probability
+ */
+export interface ProbabilityPoint {
+  value: number;
+  probability: number;
+}
+
+/**
+ * The exact probability distribution of a dice expression
+ */
+export interface DistributionAnalysis {
+  distribution: ProbabilityPoint[]; // Every possible total, in ascending order
+  min: number;
+  max: number;
+  mean: number;
+  variance: number;
+  standardDeviation: number;
+  percentiles: Record<number, number>; // Percentile -> smallest total at or above it
+}
+
+/**
+ * The chance of a single outcome table entry coming up
+ */
+export interface OutcomeProbability<T = string> {
+  threshold: number;
+  outcome: T;
+  min: number; // Lowest roll that gives this outcome (after clamping to the possible range)
+  max: number; // Highest roll that gives this outcome
+  probability: number;
+}
+
+/**
+ * A problem found in an outcome table
+ * - out-of-range: a threshold lies outside the rolls the dice can produce
+ * - unreachable: an entry can never come up, e.g. because the next threshold shadows it
+ * - uncovered: rolls below the lowest threshold, which have no outcome at all
+ */
+export interface OutcomeTableIssue {
+  kind: 'out-of-range' | 'unreachable' | 'uncovered';
+  min: number;
+  max: number;
+  message: string;
+}
+
+export interface OutcomeTableAnalysis<T = string> {
+  roll: DistributionAnalysis;
+  outcomes: OutcomeProbability<T>[]; // One entry per threshold, in ascending order
+  issues: OutcomeTableIssue[];
+}
+
+const REPORTED_PERCENTILES = [1, 5, 10, 25, 50, 75, 90, 95, 99];
+
+// Guards against expressions whose distributions are too large to work out
+const MAX_DISTRIBUTION_SIZE = 100000;
+const MAX_EXPLOSIONS = 100;
+
+type Distribution = Map<number, number>;
+
+/**
+ * Utility class for computing exact probability distributions of dice expressions
+ * and outcome tables, without rolling any dice
+ */
+export class DiceAnalysis {
+  /**
+   * Works out the exact distribution of a dice expression
+   * Exploding dice follow the evaluator's limit of 100 explosions per die, so their
+   * distribution is exact too (if vanishingly small at the tail).
+   * @throws Error if the expression can divide by zero, combines keep/drop with
+   *         exploding dice, or has too many possible totals to list
+   */
+  static analyzeExpression(expression: DiceExpression): DistributionAnalysis {
+    return this.summarize(this.getDistribution(expression));
+  }
+
+  /**
+   * Works out the chance of each entry in an outcome table, and flags entries
+   * that can never come up and rolls with no outcome
+   */
+  static analyzeTable<T>(table: OutcomeTable<T>, minValue: number): OutcomeTableAnalysis<T> {
+    const faces = this.uniform(minValue, minValue + table.sides - 1);
+    let distribution: Distribution = new Map([[0, 1]]);
+    for (let i = 0; i < table.quantity; i++) {
+      distribution = this.combine(distribution, faces, (a, b) => a + b);
+    }
+
+    const roll = this.summarize(distribution);
+    const thresholds = Object.keys(table.outcomes).map(Number).sort((a, b) => a - b);
+    const outcomes: OutcomeProbability<T>[] = [];
+    const issues: OutcomeTableIssue[] = [];
+
+    thresholds.forEach((threshold, index) => {
+      const outcome = table.outcomes[threshold];
+      const next = index + 1 < thresholds.length ? thresholds[index + 1] : Infinity;
+
+      // The rolls this entry covers: from its threshold up to just before the next one
+      const min = Math.max(Math.ceil(threshold), roll.min);
+      const max = Math.min(Math.ceil(next) - 1, roll.max);
+      let probability = 0;
+      for (let value = min; value <= max; value++) {
+        probability += distribution.get(value) ?? 0;
+      }
+
+      outcomes.push({ threshold, outcome, min, max, probability });
+
+      if (threshold < roll.min || threshold > roll.max) {
+        issues.push({
+          kind: 'out-of-range',
+          min: threshold,
+          max: threshold,
+          message: `Threshold ${threshold} is outside the possible range (${roll.min}-${roll.max})`
+        });
+      }
+      if (probability === 0) {
+        issues.push({
+          kind: 'unreachable',
+          min: threshold,
+          max: Number.isFinite(next) ? Math.ceil(next) - 1 : threshold,
+          message: `Outcome "${String(outcome)}" at ${threshold} can never be rolled`
+        });
+      }
+    });
+
+    if (thresholds.length === 0 || thresholds[0] > roll.min) {
+      const max = thresholds.length === 0 ? roll.max : Math.min(Math.ceil(thresholds[0]) - 1, roll.max);
+      issues.push({
+        kind: 'uncovered',
+        min: roll.min,
+        max,
+        message: `Rolls ${roll.min}-${max} have no outcome`
+      });
+    }
+
+    return { roll, outcomes, issues };
+  }
+
+  /**
+   * Finds the smallest total whose cumulative probability reaches the given percentile
+   * @param distribution The distribution, in ascending order
+   * @param percentile A percentile between 0 and 100
+   */
+  static getPercentile(distribution: ProbabilityPoint[], percentile: number): number {
+    const target = percentile / 100;
+    let cumulative = 0;
+
+    for (const point of distribution) {
+      cumulative += point.probability;
+      // Allow for floating point error in the running total
+      if (cumulative >= target - 1e-12) return point.value;
+    }
+
+    return distribution[distribution.length - 1].value;
+  }
+
+  private static summarize(distribution: Distribution): DistributionAnalysis {
+    const points = Array.from(distribution.entries())
+      .filter(([, probability]) => probability > 0)
+      .map(([value, probability]) => ({ value, probability }))
+      .sort((a, b) => a.value - b.value);
+
+    const mean = points.reduce((sum, point) => sum + point.value * point.probability, 0);
+    const variance = points.reduce((sum, point) => sum + (point.value - mean) ** 2 * point.probability, 0);
+
+    const percentiles: Record<number, number> = {};
+    for (const percentile of REPORTED_PERCENTILES) {
+      percentiles[percentile] = this.getPercentile(points, percentile);
+    }
+
+    return {
+      distribution: points,
+      min: points[0].value,
+      max: points[points.length - 1].value,
+      mean,
+      variance,
+      standardDeviation: Math.sqrt(variance),
+      percentiles
+    };
+  }
+
+  private static getDistribution(expression: DiceExpression): Distribution {
+    switch (expression.type) {
+      case 'constant':
+        return new Map([[expression.value, 1]]);
+      case 'dice':
+        return this.getGroupDistribution(expression);
+      case 'negate':
+        return this.map(this.getDistribution(expression.operand), value => -value);
+      case 'group':
+        return this.getDistribution(expression.inner);
+      case 'binary': {
+        const left = this.getDistribution(expression.left);
+        const right = this.getDistribution(expression.right);
+
+        switch (expression.operator) {
+          case '+':
+            return this.combine(left, right, (a, b) => a + b);
+          case '-':
+            return this.combine(left, right, (a, b) => a - b);
+          case '*':
+            return this.combine(left, right, (a, b) => a * b);
+          case '/':
+            if ((right.get(0) ?? 0) > 0) {
+              throw new Error('Dice expression can divide by zero');
+            }
+            return this.combine(left, right, (a, b) => Math.floor(a / b));
+        }
+      }
+    }
+  }
+
+  private static getGroupDistribution(group: DiceGroup): Distribution {
+    let distribution: Distribution;
+
+    if (group.keep) {
+      if (group.explode) {
+        throw new Error('Keep/drop on exploding dice cannot be analysed exactly');
+      }
+      distribution = this.getKeepDistribution(group.quantity, group.sides, group.keep.mode, group.keep.count);
+    } else {
+      const die = group.explode ? this.getExplodingDie(group.sides) : this.uniform(1, group.sides);
+      distribution = new Map([[0, 1]]);
+      for (let i = 0; i < group.quantity; i++) {
+        distribution = this.combine(distribution, die, (a, b) => a + b);
+      }
+    }
+
+    if (group.advantage) {
+      distribution = this.getBestOfTwo(distribution, group.advantage === 'advantage');
+    }
+
+    return distribution;
+  }
+
+  /**
+   * The distribution of one exploding die: each time it shows its highest face
+   * another die is rolled and added, up to the evaluator's explosion limit
+   */
+  private static getExplodingDie(sides: number): Distribution {
+    const distribution: Distribution = new Map();
+    let chainProbability = 1; // The chance every die so far has exploded
+
+    for (let explosions = 0; explosions <= MAX_EXPLOSIONS && chainProbability > 0; explosions++) {
+      const base = explosions * sides;
+      const canExplode = explosions < MAX_EXPLOSIONS;
+      for (let face = 1; face <= sides; face++) {
+        if (face === sides && canExplode) continue;
+        distribution.set(base + face, chainProbability / sides);
+      }
+      chainProbability /= sides;
+    }
+
+    return distribution;
+  }
+
+  /**
+   * The distribution of the kept dice in a keep/drop roll such as 4d6kh3.
+   * Faces are visited from the most to the least preferred (highest first for
+   * keep-highest). At each face the dice still unplaced are uniform over the
+   * faces not yet visited, so the number showing this face is binomial.
+   */
+  private static getKeepDistribution(quantity: number, sides: number, mode: KeepMode, count: number): Distribution {
+    // Dropping the lowest N is keeping the highest (quantity - N), and so on
+    const keepHighest = mode === 'kh' || mode === 'dl';
+    const keep = Math.max(0, Math.min(quantity, mode === 'kh' || mode === 'kl' ? count : quantity - count));
+
+    // State: dice left to place, dice left to keep, kept total -> probability
+    let states = new Map<string, { remaining: number; toKeep: number; total: number; probability: number }>();
+    states.set(`${quantity},${keep},0`, { remaining: quantity, toKeep: keep, total: 0, probability: 1 });
+
+    for (let step = 0; step < sides; step++) {
+      const face = keepHighest ? sides - step : step + 1;
+      const facesLeft = sides - step;
+      const next = new Map<string, { remaining: number; toKeep: number; total: number; probability: number }>();
+
+      for (const state of states.values()) {
+        for (let shown = 0; shown <= state.remaining; shown++) {
+          const probability = state.probability * this.binomial(state.remaining, shown, 1 / facesLeft);
+          if (probability === 0) continue;
+
+          const kept = Math.min(shown, state.toKeep);
+          const remaining = state.remaining - shown;
+          const toKeep = state.toKeep - kept;
+          const total = state.total + kept * face;
+          const key = `${remaining},${toKeep},${total}`;
+
+          const existing = next.get(key);
+          if (existing) {
+            existing.probability += probability;
+          } else {
+            next.set(key, { remaining, toKeep, total, probability });
+          }
+        }
+      }
+
+      states = next;
+    }
+
+    const distribution: Distribution = new Map();
+    for (const state of states.values()) {
+      distribution.set(state.total, (distribution.get(state.total) ?? 0) + state.probability);
+    }
+    return distribution;
+  }
+
+  /**
+   * The distribution of the better (or worse) of two independent rolls
+   */
+  private static getBestOfTwo(distribution: Distribution, higher: boolean): Distribution {
+    const values = Array.from(distribution.keys()).sort((a, b) => a - b);
+    const result: Distribution = new Map();
+    let below = 0; // P(roll < value)
+
+    for (const value of values) {
+      const atOrBelow = below + distribution.get(value)!;
+      result.set(value, higher
+        ? atOrBelow ** 2 - below ** 2
+        : (1 - below) ** 2 - (1 - atOrBelow) ** 2);
+      below = atOrBelow;
+    }
+
+    return result;
+  }
+
+  private static binomial(n: number, k: number, p: number): number {
+    let coefficient = 1;
+    for (let i = 1; i <= k; i++) {
+      coefficient = coefficient * (n - k + i) / i;
+    }
+    return coefficient * p ** k * (1 - p) ** (n - k);
+  }
+
+  private static uniform(min: number, max: number): Distribution {
+    const distribution: Distribution = new Map();
+    for (let value = min; value <= max; value++) {
+      distribution.set(value, 1 / (max - min + 1));
+    }
+    return distribution;
+  }
+
+  private static map(distribution: Distribution, transform: (value: number) => number): Distribution {
+    const result: Distribution = new Map();
+    for (const [value, probability] of distribution) {
+      const mapped = transform(value);
+      result.set(mapped, (result.get(mapped) ?? 0) + probability);
+    }
+    return result;
+  }
+
+  /**
+   * Combines two independent distributions with an operator
+   */
+  private static combine(left: Distribution, right: Distribution, operator: (a: number, b: number) => number): Distribution {
+    const result: Distribution = new Map();
+
+    for (const [a, probabilityA] of left) {
+      for (const [b, probabilityB] of right) {
+        const value = operator(a, b);
+        result.set(value, (result.get(value) ?? 0) + probabilityA * probabilityB);
+      }
+    }
+
+    if (result.size > MAX_DISTRIBUTION_SIZE) {
+      throw new Error(`Dice expression has too many possible totals to analyse (more than ${MAX_DISTRIBUTION_SIZE})`);
+    }
+
+    return result;
+  }
+}
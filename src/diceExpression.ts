@@ -0,0 +1,465 @@
+/**
+ * How a dice group keeps or drops some of its dice (e.g. 4d6kh3)
+ * - kh: keep the highest N dice
+ * - kl: keep the lowest N dice
+ * - dh: drop the highest N dice
+ * - dl: drop the lowest N dice
+ */
+export type KeepMode = 'kh' | 'kl' | 'dh' | 'dl';
+
+/**
+ * Mothership-style advantage [+] and disadvantage [-]:
+ * the whole dice group is rolled twice and the higher (or lower) total is kept
+ */
+export type AdvantageMode = 'advantage' | 'disadvantage';
+
+export type BinaryOperator = '+' | '-' | '*' | '/';
+
+/**
+ * A parsed dice expression
+ */
+export type DiceExpression =
+  | { type: 'constant'; value: number }
+  | DiceGroup
+  | { type: 'negate'; operand: DiceExpression }
+  | { type: 'group'; inner: DiceExpression }
+  | { type: 'binary'; operator: BinaryOperator; left: DiceExpression; right: DiceExpression };
+
+/**
+ * A group of identical dice, such as 4d6kh3 or 1d100[+]
+ */
+export interface DiceGroup {
+  type: 'dice';
+  quantity: number;
+  sides: number;
+  keep?: { mode: KeepMode; count: number };
+  explode: boolean; // Roll again and add whenever a die shows its highest face
+  advantage?: AdvantageMode;
+}
+
+/**
+ * A single die rolled while evaluating an expression
+ */
+export interface DieRoll {
+  value: number;
+  kept: boolean;      // False for dice removed by keep/drop or by advantage
+  exploded: boolean;  // True for the extra dice added by an exploding die
+}
+
+/**
+ * The rolls made for one dice group
+ */
+export interface DiceGroupBreakdown {
+  notation: string;
+  rolls: DieRoll[];
+  total: number;
+}
+
+/**
+ * Represents the result of evaluating a dice expression
+ */
+export interface DiceExpressionResult {
+  expression: string;
+  total: number;
+  rolls: number[];              // The value of every kept die, in roll order
+  groups: DiceGroupBreakdown[]; // One entry per dice group, in the order they appear
+  breakdown: string;            // e.g. "2d6 [3, 4] + 3 = 10"
+}
+
+// Guards against runaway expressions such as 100000d6 or exploding chains
+const MAX_DICE = 1000;
+const MAX_EXPLOSIONS = 100;
+
+type Token =
+  | { kind: 'number'; value: number; position: number }
+  | { kind: 'symbol'; value: string; position: number };
+
+/**
+ * Utility class for parsing and evaluating dice expressions
+ *
+ * Supported syntax:
+ * - constants and arithmetic: 3, 2d6+3, 1d10*10, (1d6+1)*2, -1d4
+ *   (division rounds down, as is usual at the table)
+ * - dice: NdM, dM (one die), d100 and d% (percentile)
+ * - keep/drop: 4d6kh3, 4d6k3, 2d20kl1, 4d6dl1, 4d6dh1
+ * - exploding dice: 3d6!
+ * - advantage/disadvantage: 1d100[+], 1d100[-]
+ */
+export class DiceExpressions {
+  /**
+   * Parses a dice expression
+   * @param notation The expression to parse (case and whitespace are ignored)
+   * @returns The parsed expression
+   * @throws Error if the expression is invalid
+   */
+  static parse(notation: string): DiceExpression {
+    const tokens = this.tokenize(notation);
+    const parser = new Parser(notation, tokens);
+    const expression = parser.parseExpression();
+
+    if (!parser.atEnd()) {
+      throw new Error(`Invalid dice notation: ${notation}. Unexpected "${parser.peekText()}"`);
+    }
+
+    return expression;
+  }
+
+  /**
+   * Checks whether an expression rolls any dice, as opposed to being pure arithmetic
+   */
+  static hasDice(expression: DiceExpression): boolean {
+    switch (expression.type) {
+      case 'constant':
+        return false;
+      case 'dice':
+        return true;
+      case 'negate':
+        return this.hasDice(expression.operand);
+      case 'group':
+        return this.hasDice(expression.inner);
+      case 'binary':
+        return this.hasDice(expression.left) || this.hasDice(expression.right);
+    }
+  }
+
+  /**
+   * Writes an expression back out in canonical notation (e.g. "4d6kh3+2")
+   */
+  static format(expression: DiceExpression): string {
+    switch (expression.type) {
+      case 'constant':
+        return expression.value.toString();
+      case 'dice':
+        return this.formatGroup(expression);
+      case 'negate':
+        return `-${this.format(expression.operand)}`;
+      case 'group':
+        return `(${this.format(expression.inner)})`;
+      case 'binary':
+        return `${this.format(expression.left)}${expression.operator}${this.format(expression.right)}`;
+    }
+  }
+
+  /**
+   * Evaluates a parsed expression
+   * @param expression The expression to evaluate
+   * @param rollDie Rolls a single die with the given number of sides (1 to sides)
+   * @returns The total along with a breakdown of every die rolled
+   */
+  static evaluate(expression: DiceExpression, rollDie: (sides: number) => number): DiceExpressionResult {
+    const groups: DiceGroupBreakdown[] = [];
+
+    const evaluateNode = (node: DiceExpression): { value: number; text: string } => {
+      switch (node.type) {
+        case 'constant':
+          return { value: node.value, text: node.value.toString() };
+        case 'dice': {
+          const group = this.rollGroup(node, rollDie);
+          groups.push(group);
+          return { value: group.total, text: `${group.notation} ${this.formatRolls(group.rolls)}` };
+        }
+        case 'negate': {
+          const operand = evaluateNode(node.operand);
+          return { value: -operand.value, text: `-${operand.text}` };
+        }
+        case 'group': {
+          const inner = evaluateNode(node.inner);
+          return { value: inner.value, text: `(${inner.text})` };
+        }
+        case 'binary': {
+          const left = evaluateNode(node.left);
+          const right = evaluateNode(node.right);
+          return {
+            value: this.applyOperator(node.operator, left.value, right.value),
+            text: `${left.text} ${node.operator} ${right.text}`
+          };
+        }
+      }
+    };
+
+    const { value, text } = evaluateNode(expression);
+
+    return {
+      expression: this.format(expression),
+      total: value,
+      rolls: groups.flatMap(group => group.rolls.filter(roll => roll.kept).map(roll => roll.value)),
+      groups,
+      breakdown: `${text} = ${value}`
+    };
+  }
+
+  private static rollGroup(group: DiceGroup, rollDie: (sides: number) => number): DiceGroupBreakdown {
+    const rollOnce = (): DieRoll[] => {
+      const rolls: DieRoll[] = [];
+
+      for (let i = 0; i < group.quantity; i++) {
+        let value = rollDie(group.sides);
+        rolls.push({ value, kept: true, exploded: false });
+
+        let explosions = 0;
+        while (group.explode && value === group.sides && explosions < MAX_EXPLOSIONS) {
+          value = rollDie(group.sides);
+          rolls.push({ value, kept: true, exploded: true });
+          explosions++;
+        }
+      }
+
+      if (group.keep) {
+        this.applyKeep(rolls, group.keep.mode, group.keep.count);
+      }
+
+      return rolls;
+    };
+
+    const sumKept = (rolls: DieRoll[]) =>
+      rolls.reduce((sum, roll) => sum + (roll.kept ? roll.value : 0), 0);
+
+    let rolls = rollOnce();
+    let total = sumKept(rolls);
+
+    if (group.advantage) {
+      const second = rollOnce();
+      const secondTotal = sumKept(second);
+      const preferSecond = group.advantage === 'advantage' ? secondTotal > total : secondTotal < total;
+
+      const [kept, dropped] = preferSecond ? [second, rolls] : [rolls, second];
+      dropped.forEach(roll => roll.kept = false);
+
+      rolls = [...rolls, ...second];
+      total = sumKept(kept);
+    }
+
+    return { notation: this.formatGroup(group), rolls, total };
+  }
+
+  /**
+   * Marks the dice removed by a keep/drop modifier.
+   * Exploded dice count as separate dice, and ties go to the earlier roll.
+   */
+  private static applyKeep(rolls: DieRoll[], mode: KeepMode, count: number): void {
+    const highestFirst = rolls
+      .map((roll, index) => ({ roll, index }))
+      .sort((a, b) => b.roll.value - a.roll.value || a.index - b.index);
+    const n = Math.min(count, rolls.length);
+
+    let dropped: typeof highestFirst;
+    switch (mode) {
+      case 'kh':
+        dropped = highestFirst.slice(n);
+        break;
+      case 'kl':
+        dropped = highestFirst.slice(0, rolls.length - n);
+        break;
+      case 'dh':
+        dropped = highestFirst.slice(0, n);
+        break;
+      case 'dl':
+        dropped = highestFirst.slice(rolls.length - n);
+        break;
+    }
+
+    dropped.forEach(({ roll }) => roll.kept = false);
+  }
+
+  private static applyOperator(operator: BinaryOperator, left: number, right: number): number {
+    switch (operator) {
+      case '+':
+        return left + right;
+      case '-':
+        return left - right;
+      case '*':
+        return left * right;
+      case '/':
+        if (right === 0) throw new Error('Division by zero in dice expression');
+        return Math.floor(left / right);
+    }
+  }
+
+  private static formatGroup(group: DiceGroup): string {
+    let notation = `${group.quantity}d${group.sides}`;
+    if (group.keep) notation += `${group.keep.mode}${group.keep.count}`;
+    if (group.explode) notation += '!';
+    if (group.advantage) notation += group.advantage === 'advantage' ? '[+]' : '[-]';
+    return notation;
+  }
+
+  private static formatRolls(rolls: DieRoll[]): string {
+    const values = rolls.map(roll => {
+      let text = roll.value.toString();
+      if (roll.exploded) text += '!';
+      return roll.kept ? text : `~${text}~`;
+    });
+    return `[${values.join(', ')}]`;
+  }
+
+  private static tokenize(notation: string): Token[] {
+    const tokens: Token[] = [];
+    const text = notation.toLowerCase();
+    let i = 0;
+
+    while (i < text.length) {
+      const char = text[i];
+
+      if (/\s/.test(char)) {
+        i++;
+      } else if (/\d/.test(char)) {
+        const start = i;
+        while (i < text.length && /\d/.test(text[i])) i++;
+        tokens.push({ kind: 'number', value: parseInt(text.slice(start, i), 10), position: start });
+      } else if (text.startsWith('[+]', i) || text.startsWith('[-]', i)) {
+        tokens.push({ kind: 'symbol', value: text.slice(i, i + 3), position: i });
+        i += 3;
+      } else if (/^(kh|kl|dh|dl)/.test(text.slice(i))) {
+        tokens.push({ kind: 'symbol', value: text.slice(i, i + 2), position: i });
+        i += 2;
+      } else if ('+-*/()d%k!'.includes(char)) {
+        tokens.push({ kind: 'symbol', value: char, position: i });
+        i++;
+      } else {
+        throw new Error(`Invalid dice notation: ${notation}. Unexpected "${notation[i]}"`);
+      }
+    }
+
+    return tokens;
+  }
+}
+
+/**
+ * Recursive descent parser for dice expressions
+ *
+ * expression := term (("+" | "-") term)*
+ * term       := unary (("*" | "/") unary)*
+ * unary      := "-" unary | primary
+ * primary    := number | dice | "(" expression ")"
+ * dice       := number? "d" (number | "%") keep? "!"? ("[+]" | "[-]")?
+ * keep       := ("kh" | "kl" | "dh" | "dl" | "k") number
+ */
+class Parser {
+  private index = 0;
+
+  constructor(private notation: string, private tokens: Token[]) {}
+
+  atEnd(): boolean {
+    return this.index >= this.tokens.length;
+  }
+
+  peekText(): string {
+    const token = this.tokens[this.index];
+    return token ? this.notation.slice(token.position) : 'end of expression';
+  }
+
+  parseExpression(): DiceExpression {
+    let left = this.parseTerm();
+
+    while (this.isSymbol('+') || this.isSymbol('-')) {
+      const operator = this.next().value as BinaryOperator;
+      left = { type: 'binary', operator, left, right: this.parseTerm() };
+    }
+
+    return left;
+  }
+
+  private parseTerm(): DiceExpression {
+    let left = this.parseUnary();
+
+    while (this.isSymbol('*') || this.isSymbol('/')) {
+      const operator = this.next().value as BinaryOperator;
+      left = { type: 'binary', operator, left, right: this.parseUnary() };
+    }
+
+    return left;
+  }
+
+  private parseUnary(): DiceExpression {
+    if (this.isSymbol('-')) {
+      this.next();
+      return { type: 'negate', operand: this.parseUnary() };
+    }
+
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): DiceExpression {
+    if (this.isSymbol('(')) {
+      this.next();
+      const inner = this.parseExpression();
+      this.expectSymbol(')');
+      return { type: 'group', inner };
+    }
+
+    const token = this.tokens[this.index];
+    if (token?.kind === 'number') {
+      this.next();
+      return this.isSymbol('d') ? this.parseDice(token.value) : { type: 'constant', value: token.value };
+    }
+
+    if (this.isSymbol('d')) {
+      return this.parseDice(1);
+    }
+
+    throw this.error();
+  }
+
+  private parseDice(quantity: number): DiceGroup {
+    this.expectSymbol('d');
+
+    let sides: number;
+    if (this.isSymbol('%')) {
+      this.next();
+      sides = 100;
+    } else {
+      sides = this.expectNumber();
+    }
+
+    if (quantity < 1) throw new Error(`Invalid dice notation: ${this.notation}. Must roll at least 1 die`);
+    if (quantity > MAX_DICE) throw new Error(`Invalid dice notation: ${this.notation}. Cannot roll more than ${MAX_DICE} dice`);
+    if (sides < 1) throw new Error(`Invalid dice notation: ${this.notation}. Dice must have at least 1 side`);
+
+    const group: DiceGroup = { type: 'dice', quantity, sides, explode: false };
+
+    for (const mode of ['kh', 'kl', 'dh', 'dl', 'k']) {
+      if (this.isSymbol(mode)) {
+        this.next();
+        group.keep = { mode: mode === 'k' ? 'kh' : mode as KeepMode, count: this.expectNumber() };
+        break;
+      }
+    }
+
+    if (this.isSymbol('!')) {
+      this.next();
+      if (sides === 1) throw new Error(`Invalid dice notation: ${this.notation}. A one-sided die cannot explode`);
+      group.explode = true;
+    }
+
+    if (this.isSymbol('[+]') || this.isSymbol('[-]')) {
+      group.advantage = this.next().value === '[+]' ? 'advantage' : 'disadvantage';
+    }
+
+    return group;
+  }
+
+  private isSymbol(value: string): boolean {
+    const token = this.tokens[this.index];
+    return token?.kind === 'symbol' && token.value === value;
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private expectSymbol(value: string): void {
+    if (!this.isSymbol(value)) throw this.error();
+    this.next();
+  }
+
+  private expectNumber(): number {
+    const token = this.tokens[this.index];
+    if (token?.kind !== 'number') throw this.error();
+    this.next();
+    return token.value;
+  }
+
+  private error(): Error {
+    return new Error(`Invalid dice notation: ${this.notation}. Unexpected "${this.peekText()}"`);
+  }
+}
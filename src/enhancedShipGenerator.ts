@@ -1,6 +1,8 @@
-import type { DungeonGraph, GenerationConfig } from './types';
+import type { DungeonGraph, GenerationConfig, ShipTypeDefinition } from './types';
 import { ShipGenerator } from './shipGenerator';
 import { RoomGenerator } from './roomGenerator';
+import type { PRNG } from './prng';
+import { RollLog } from './rollLog';
 
 /**
  * EnhancedShipGenerator - Combines ship layout generation with 
@@ -10,9 +12,14 @@ export class EnhancedShipGenerator {
     private shipGenerator: ShipGenerator;
     private roomGenerator: RoomGenerator;
 
-    constructor() {
-        this.shipGenerator = new ShipGenerator();
-        this.roomGenerator = new RoomGenerator();
+    /**
+     * @param rng The generator for this ship
+     * @param log Where to record the rolls; both generators share it, so the
+     * ship's roll log covers the layout and the room placement
+     */
+    constructor(rng: PRNG, log: RollLog = new RollLog()) {
+        this.shipGenerator = new ShipGenerator(rng, log);
+        this.roomGenerator = new RoomGenerator(rng, log);
     }
 
     /**
@@ -22,16 +29,11 @@ export class EnhancedShipGenerator {
      * @param config Additional configuration options
      * @returns A ship layout with optimized room placements
      */
-    generateShip(shipType: { name: string; decks: string }, config: Partial<GenerationConfig> = {}): DungeonGraph {
-        console.log(`\n🚀 GENERATING OPTIMIZED SHIP: ${shipType.name} with deck config ${shipType.decks}`);
-
+    generateShip(shipType: ShipTypeDefinition, config: Partial<GenerationConfig> = {}): DungeonGraph {
         // First generate the basic ship layout
-        console.log(`\n📐 Generating ship layout...`);
         const shipLayout = this.shipGenerator.generateShipFromType(shipType, config);
-        console.log(`✅ Base layout created with ${shipLayout.rooms.length} rooms across ${Math.max(...shipLayout.rooms.map(r => Math.floor(r.y / 50))) + 1} decks`);
 
         // Apply room placement rules
-        console.log(`\n🧩 Applying room placement rules...`);
-        return this.roomGenerator.applyRoomTypes(shipLayout, shipType.name);
+        return this.roomGenerator.applyRoomTypes(shipLayout, shipType.name).graph;
     }
 } 
\ No newline at end of file
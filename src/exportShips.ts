@@ -0,0 +1,134 @@
+/**
+ * Batch-exports ships as handouts, without a browser:
+ *
+ *   pnpm export --seed IAGO-MARAX-7 --seed 1718038347 --format pdf,png --dpi 300
+ *   pnpm export --count 20 --ruleset dead-planet --monochrome --out handouts
+ *
+ * Options:
+ *   --seed <seed>        A ship to export (repeat for more). With --count, the base for numbered seeds
+ *   --count <n>          Export n ships, with seeds "<seed>-1" to "<seed>-n"
+ *   --format <formats>   Any of svg, png, pdf and txt, separated by commas (defaults to pdf)
+ *   --dpi <dpi>          Resolution of PNG maps, and of maps on PDF sheets (defaults to 300)
+ *   --ruleset <name>     shipbreakers or dead-planet (defaults to shipbreakers)
+ *   --pack <file>        A table pack to load on top of the ruleset's tables (repeat for more)
+ *   --page <size>        PDF page size, a4 or letter (defaults to a4)
+ *   --monochrome         Fill rooms with patterns instead of colours
+ *   --secondary          Show secondary connections
+ *   --labels <mode>      What room labels show: both (type and number), types or ids (defaults to both)
+ *   --ascii              Draw text maps in plain ASCII instead of box-drawing characters
+ *   --font <file>        A font for the map and sheet (then --bold-font for bold text)
+ *   --no-embed-fonts     Only name the fonts in SVG maps instead of embedding them, for much smaller
+ *                        files that need DejaVu Sans installed to look right (--font is always embedded)
+ *   --out <dir>          Where to write the files (defaults to the current directory)
+ */
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { TablePacks } from './tablePack';
+import { Rulesets } from './rulesets';
+import { ShipSheets } from './shipSheet';
+import { ShipExport } from './shipExport';
+import { ShipHandouts, type HandoutFont } from './shipHandouts';
+import type { RoomLabelMode } from './roomStyles';
+
+const FORMATS = ['svg', 'png', 'pdf', 'txt'];
+const LABEL_MODES: RoomLabelMode[] = ['both', 'types', 'ids'];
+
+const { values } = parseArgs({
+  options: {
+    'seed': { type: 'string', multiple: true },
+    'count': { type: 'string' },
+    'format': { type: 'string', default: 'pdf' },
+    'dpi': { type: 'string', default: '300' },
+    'ruleset': { type: 'string', default: 'shipbreakers' },
+    'pack': { type: 'string', multiple: true },
+    'page': { type: 'string', default: 'a4' },
+    'monochrome': { type: 'boolean', default: false },
+    'secondary': { type: 'boolean', default: false },
+    'labels': { type: 'string', default: 'both' },
+    'ascii': { type: 'boolean', default: false },
+    'font': { type: 'string' },
+    'bold-font': { type: 'string' },
+    'no-embed-fonts': { type: 'boolean', default: false },
+    'out': { type: 'string', default: '.' }
+  }
+});
+
+const formats = values.format.split(',').map(format => format.trim().toLowerCase());
+const unknownFormats = formats.filter(format => !FORMATS.includes(format));
+if (unknownFormats.length > 0) {
+  throw new Error(`Unknown format ${unknownFormats.join(', ')}: use any of ${FORMATS.join(', ')}`);
+}
+
+const ruleset = values.ruleset;
+if (!Rulesets.isRulesetName(ruleset)) {
+  throw new Error(`Unknown ruleset "${ruleset}": use one of ${Rulesets.getNames().join(', ')}`);
+}
+
+const page = values.page.toUpperCase();
+if (page !== 'A4' && page !== 'LETTER') {
+  throw new Error(`Unknown page size "${values.page}": use a4 or letter`);
+}
+
+const roomLabels = values.labels as RoomLabelMode;
+if (!LABEL_MODES.includes(roomLabels)) {
+  throw new Error(`Unknown room labels "${values.labels}": use one of ${LABEL_MODES.join(', ')}`);
+}
+
+const dpi = Number(values.dpi);
+if (!Number.isFinite(dpi) || dpi <= 0) {
+  throw new Error(`--dpi must be a number more than 0, but is ${values.dpi}`);
+}
+
+const count = values.count === undefined ? undefined : Number(values.count);
+if (count !== undefined && (!Number.isInteger(count) || count < 1)) {
+  throw new Error(`--count must be a whole number of at least 1, but is ${values.count}`);
+}
+
+// Seeds are kept as strings, as in the browser, so the same seed gives the same ship
+const baseSeeds = values.seed ?? [Date.now().toString()];
+const seeds = count === undefined
+  ? baseSeeds
+  : Array.from({ length: count }, (_, i) => `${baseSeeds[0]}-${i + 1}`);
+
+// The same tables as the page: the ruleset's packs, with any packs given on top
+const readPack = (path: string | URL) => TablePacks.parse(readFileSync(path, 'utf8'));
+const rulesetPacks = ruleset === 'dead-planet'
+  ? [readPack(new URL('./packs/shipbreakers.yaml', import.meta.url)), readPack(new URL('./packs/deadPlanet.yaml', import.meta.url))]
+  : [readPack(new URL('./packs/shipbreakers.yaml', import.meta.url))];
+const tables = TablePacks.load([...rulesetPacks, ...(values.pack ?? []).map(readPack)]);
+
+const fonts: HandoutFont[] = values.font
+  ? [
+    { family: 'Handout', path: values.font, weight: 'normal' },
+    ...(values['bold-font'] ? [{ family: 'Handout', path: values['bold-font'], weight: 'bold' as const }] : [])
+  ]
+  : ShipHandouts.getDefaultFonts();
+
+// A font given by file only has a made-up family name, so a viewer can't find it unless it's embedded
+const embedFonts = !values['no-embed-fonts'] || values.font !== undefined;
+
+mkdirSync(values.out, { recursive: true });
+
+for (const seed of seeds) {
+  const ship = ShipSheets.roll(seed, tables, ruleset);
+  const mapOptions = { monochrome: values.monochrome, renderSecondaryConnections: values.secondary, roomLabels };
+  const markup = ShipHandouts.renderMap(ship, mapOptions);
+  const fileName = join(values.out, ShipExport.getFileName(ship.sheet.name, seed));
+
+  if (formats.includes('svg')) {
+    writeFileSync(`${fileName}.svg`, ShipHandouts.toSvg(markup, { fonts, embedFonts }));
+  }
+  if (formats.includes('png')) {
+    writeFileSync(`${fileName}.png`, ShipHandouts.toPng(markup, { dpi, fonts }));
+  }
+  if (formats.includes('txt')) {
+    writeFileSync(`${fileName}.txt`, `${ship.sheet.name}\n${ship.sheet.shipType}\n\n` +
+      `${ShipHandouts.renderTextMap(ship, { ...mapOptions, charset: values.ascii ? 'ascii' : 'unicode' })}\n`);
+  }
+  if (formats.includes('pdf')) {
+    writeFileSync(`${fileName}.pdf`, await ShipHandouts.toPdf(ship.sheet, markup, { pageSize: page, dpi, fonts }));
+  }
+
+  console.log(`${seed}: ${ship.sheet.name} (${ship.sheet.shipType}) -> ${fileName}.{${formats.join(',')}}`);
+}
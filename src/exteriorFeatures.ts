@@ -0,0 +1,204 @@
+import type { DoorPlacement, DoorSide, DungeonGraph, ExteriorFeature, ExteriorFeatureType, RoomNode } from './types';
+import type { Dice } from './dice';
+import { DeckPosition, RoomPlacementRuleEngine } from './roomPlacementRules';
+import { RoomFootprints } from './roomFootprint';
+
+/**
+ * The number of each exterior feature a ship has, as an inclusive range
+ */
+export type ExteriorFeatureCounts = Record<ExteriorFeatureType, { min: number; max: number }>;
+
+/**
+ * Defines which deck zone an exterior feature should ideally be placed in
+ */
+export interface ExteriorFeatureRule {
+    preferredPosition: DeckPosition;
+    avoidPosition?: DeckPosition;
+    placementWeight: number; // Higher = stronger preference
+}
+
+export const EXTERIOR_FEATURE_NAMES: Record<ExteriorFeatureType, string> = {
+    'airlock': 'Airlock',
+    'docking-collar': 'Docking Collar',
+    'escape-pods': 'Escape Pod Bay'
+};
+
+/**
+ * Deck zone preferences for each exterior feature
+ * Docking collars sit towards the bow, airlocks and escape pods near the crew
+ * decks, and nothing is placed beside the engines if it can be avoided.
+ */
+export const EXTERIOR_FEATURE_RULES: Record<ExteriorFeatureType, ExteriorFeatureRule> = {
+    'airlock': {
+        preferredPosition: DeckPosition.MIDDLE,
+        placementWeight: 3
+    },
+    'docking-collar': {
+        preferredPosition: DeckPosition.UPPER,
+        avoidPosition: DeckPosition.LOWER,
+        placementWeight: 5
+    },
+    'escape-pods': {
+        preferredPosition: DeckPosition.MIDDLE,
+        avoidPosition: DeckPosition.LOWER,
+        placementWeight: 4
+    }
+};
+
+const DEFAULT_FEATURE_COUNTS: ExteriorFeatureCounts = {
+    'airlock': { min: 1, max: 2 },
+    'docking-collar': { min: 1, max: 1 },
+    'escape-pods': { min: 1, max: 2 }
+};
+
+/**
+ * Exterior feature counts per ship type
+ * Ship types without an entry use the default counts.
+ */
+export const EXTERIOR_FEATURE_COUNTS: Record<string, ExteriorFeatureCounts> = {
+    "Mining Frigate": {
+        'airlock': { min: 1, max: 2 },
+        'docking-collar': { min: 1, max: 2 },
+        'escape-pods': { min: 1, max: 1 }
+    },
+    "Freighter": {
+        'airlock': { min: 1, max: 2 },
+        'docking-collar': { min: 2, max: 3 },
+        'escape-pods': { min: 1, max: 1 }
+    },
+    "Raider": {
+        'airlock': { min: 1, max: 1 },
+        'docking-collar': { min: 1, max: 1 },
+        'escape-pods': { min: 0, max: 1 }
+    },
+    "Executive Transport": {
+        'airlock': { min: 1, max: 1 },
+        'docking-collar': { min: 1, max: 1 },
+        'escape-pods': { min: 2, max: 3 }
+    },
+    "Exploration Vessel": {
+        'airlock': { min: 2, max: 3 },
+        'docking-collar': { min: 1, max: 1 },
+        'escape-pods': { min: 1, max: 2 }
+    },
+    "Jumpliner": {
+        'airlock': { min: 1, max: 2 },
+        'docking-collar': { min: 1, max: 2 },
+        'escape-pods': { min: 2, max: 4 }
+    },
+    "Corvette": {
+        'airlock': { min: 1, max: 2 },
+        'docking-collar': { min: 1, max: 1 },
+        'escape-pods': { min: 1, max: 2 }
+    },
+    "Troopship": {
+        'airlock': { min: 2, max: 4 },
+        'docking-collar': { min: 1, max: 2 },
+        'escape-pods': { min: 2, max: 4 }
+    },
+    "Colony Ship": {
+        'airlock': { min: 2, max: 4 },
+        'docking-collar': { min: 2, max: 3 },
+        'escape-pods': { min: 3, max: 6 }
+    }
+};
+
+/**
+ * Utility class for placing airlocks, docking collars and escape pods on the hull
+ */
+export class ExteriorFeatures {
+    /**
+     * Places exterior features on room edges that face open space.
+     * Each room gets at most one feature, and features are biased towards
+     * their preferred deck zone.
+     *
+     * @param graph The ship layout (corridors included)
+     * @param shipType The type of ship, used to decide how many of each feature to place
+     * @param cellSize The size of a grid cell in pixels
+     * @param dice The dice to roll with
+     * @returns The placed features, fewer than rolled if the hull runs out of space
+     */
+    static placeFeatures(graph: DungeonGraph, shipType: string, cellSize: number, dice: Dice): ExteriorFeature[] {
+        const counts = EXTERIOR_FEATURE_COUNTS[shipType] || DEFAULT_FEATURE_COUNTS;
+        const totalDecks = graph.height ?? 1;
+        let candidates = this.getHullEdges(graph, cellSize);
+        const features: ExteriorFeature[] = [];
+
+        for (const type of Object.keys(EXTERIOR_FEATURE_NAMES) as ExteriorFeatureType[]) {
+            dice.within(EXTERIOR_FEATURE_NAMES[type], () => {
+                const { min, max } = counts[type];
+                const count = min + dice.d(max - min + 1) - 1;
+
+                for (let i = 0; i < count && candidates.length > 0; i++) {
+                    const { room, position } = this.pickEdge(candidates, EXTERIOR_FEATURE_RULES[type], totalDecks, dice);
+                    features.push({ type, room, position });
+
+                    // Only one feature per room
+                    candidates = candidates.filter(candidate => candidate.room !== room);
+                }
+            });
+        }
+
+        return features;
+    }
+
+    /**
+     * Finds every room edge that faces open space (outside the grid or an empty cell)
+     */
+    private static getHullEdges(graph: DungeonGraph, cellSize: number): Array<{ room: RoomNode; position: DoorPlacement }> {
+        const occupied = new Set<string>();
+        for (const node of graph.rooms) {
+            for (const cell of RoomFootprints.getCells(node, cellSize)) {
+                occupied.add(`${cell.x},${cell.y}`);
+            }
+        }
+
+        const edges: Array<{ room: RoomNode; position: DoorPlacement }> = [];
+        const sides: DoorSide[] = ['north', 'south', 'east', 'west'];
+
+        for (const room of graph.rooms.filter(node => node.kind !== 'corridor')) {
+            for (const cell of RoomFootprints.getCells(room, cellSize)) {
+                for (const side of sides) {
+                    const position = { x: cell.x, y: cell.y, side };
+                    const [, outside] = RoomFootprints.getDoorCells(position);
+
+                    if (!occupied.has(`${outside.x},${outside.y}`)) {
+                        edges.push({ room, position });
+                    }
+                }
+            }
+        }
+
+        return edges;
+    }
+
+    /**
+     * Picks a hull edge, weighted towards the feature's preferred deck zone.
+     * Edges in the avoided zone are only used if nothing else is available.
+     */
+    private static pickEdge(
+        candidates: Array<{ room: RoomNode; position: DoorPlacement }>,
+        rule: ExteriorFeatureRule,
+        totalDecks: number,
+        dice: Dice
+    ): { room: RoomNode; position: DoorPlacement } {
+        const weights = candidates.map(candidate => {
+            const zone = RoomPlacementRuleEngine.getDeckZone(candidate.position.y, totalDecks);
+            if (zone === rule.avoidPosition) return 0;
+            return zone === rule.preferredPosition ? 1 + rule.placementWeight : 1;
+        });
+
+        const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+        if (totalWeight === 0) {
+            return candidates[dice.d(candidates.length) - 1];
+        }
+
+        let roll = dice.d(totalWeight);
+        for (let i = 0; i < candidates.length; i++) {
+            roll -= weights[i];
+            if (roll <= 0) return candidates[i];
+        }
+
+        return candidates[candidates.length - 1];
+    }
+}
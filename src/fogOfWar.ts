@@ -0,0 +1,180 @@
+import type { DungeonGraph, RoomNode } from './types';
+import type { RulesetName } from './rulesets';
+
+/**
+ * One thing the players have found: a room the referee revealed, or a link
+ * they went through (which reveals the rooms at both ends)
+ * Links are identified by their index in the ship's links, which is the same
+ * every time the ship is rolled from its seed.
+ */
+export type RevealEvent = { roomId: number } | { linkIndex: number };
+
+/**
+ * A fog of war session, saved so it can be resumed
+ * The seed, ruleset and packs identify the ship the reveals belong to.
+ */
+export interface FogOfWarSave {
+  seed: string;
+  ruleset: RulesetName;
+  packs: string[];          // Names of the table packs the ship was rolled with
+  reveals: RevealEvent[];   // In the order they happened
+}
+
+/**
+ * What the players have seen of a ship: the rooms revealed so far, and the links explored
+ * Reveals are kept in order, so the last one can be undone.
+ */
+export class FogOfWar {
+  private reveals: RevealEvent[] = [];
+  private revealedRooms = new Set<number>();
+  private exploredLinks = new Set<number>();
+
+  /**
+   * @param reveals Reveals to replay, e.g. from a saved session
+   * @throws Error if a reveal names a room or link the ship doesn't have
+   */
+  constructor(private graph: DungeonGraph, reveals: RevealEvent[] = []) {
+    for (const reveal of reveals) {
+      if ('roomId' in reveal ? !graph.rooms.some(room => room.id === reveal.roomId) : !graph.links[reveal.linkIndex]) {
+        throw new Error(`Fog of war doesn't match this ship: it has no ${'roomId' in reveal ? `room ${reveal.roomId}` : `link ${reveal.linkIndex}`}`);
+      }
+      this.apply(reveal);
+    }
+  }
+
+  /**
+   * Picks the room the players start in: one with an airlock or docking collar, if there is one
+   */
+  static getEntryRoom(graph: DungeonGraph): RoomNode | undefined {
+    const entrances = (graph.exteriorFeatures || [])
+      .filter(feature => feature.type === 'airlock' || feature.type === 'docking-collar')
+      .map(feature => feature.room);
+    return entrances[0] ?? graph.rooms.find(room => room.kind !== 'corridor');
+  }
+
+  /**
+   * Resumes a saved session
+   * @throws Error if the save is for a different ship
+   */
+  static fromSave(graph: DungeonGraph, save: FogOfWarSave): FogOfWar {
+    return new FogOfWar(graph, save.reveals);
+  }
+
+  toSave(ship: Omit<FogOfWarSave, 'reveals'>): FogOfWarSave {
+    return { ...ship, reveals: this.getReveals() };
+  }
+
+  getReveals(): RevealEvent[] {
+    return this.reveals.map(reveal => ({ ...reveal }));
+  }
+
+  isRoomRevealed(roomId: number): boolean {
+    return this.revealedRooms.has(roomId);
+  }
+
+  isLinkExplored(linkIndex: number): boolean {
+    return this.exploredLinks.has(linkIndex);
+  }
+
+  /**
+   * Gets the part of the ship the players have seen: the revealed rooms, the links
+   * between them, and the exterior features on them
+   * The grid size is kept, so the rooms stay where they are on the whole ship.
+   */
+  getVisibleGraph(): DungeonGraph {
+    const isRevealed = (room: RoomNode) => this.revealedRooms.has(room.id);
+    return {
+      rooms: this.graph.rooms.filter(isRevealed),
+      links: this.graph.links.filter(link => isRevealed(link.source) && isRevealed(link.target)),
+      width: this.graph.width,
+      height: this.graph.height,
+      exteriorFeatures: (this.graph.exteriorFeatures || []).filter(feature => isRevealed(feature.room))
+    };
+  }
+
+  /**
+   * Reveals a room on its own, e.g. one the players can see into
+   * @returns Whether the room was hidden
+   */
+  revealRoom(roomId: number): boolean {
+    if (this.revealedRooms.has(roomId) || !this.graph.rooms.some(room => room.id === roomId)) return false;
+    this.apply({ roomId });
+    return true;
+  }
+
+  /**
+   * Explores a link, revealing the rooms at both ends
+   * @returns Whether the link was unexplored
+   */
+  exploreLink(linkIndex: number): boolean {
+    if (this.exploredLinks.has(linkIndex) || !this.graph.links[linkIndex]) return false;
+    this.apply({ linkIndex });
+    return true;
+  }
+
+  /**
+   * Makes the next reveal in order: the entry room first, then the first link,
+   * in link order, that leads from a revealed room to a hidden one
+   * @returns Whether there was anything left to reveal
+   */
+  revealNext(includeSecondary: boolean): boolean {
+    if (this.revealedRooms.size === 0) {
+      const entry = FogOfWar.getEntryRoom(this.graph);
+      return entry ? this.revealRoom(entry.id) : false;
+    }
+
+    const next = this.getUnknownDoorways(includeSecondary)[0];
+    return next !== undefined && this.exploreLink(next);
+  }
+
+  /**
+   * Counts the reveals revealNext would make from here until nothing is left
+   */
+  countRemainingReveals(includeSecondary: boolean): number {
+    const copy = new FogOfWar(this.graph, this.reveals);
+    let count = 0;
+    while (copy.revealNext(includeSecondary)) {
+      count++;
+    }
+    return count;
+  }
+
+  /**
+   * Undoes the last reveal
+   * @returns Whether there was one to undo
+   */
+  undo(): boolean {
+    if (this.reveals.length === 0) return false;
+
+    const reveals = this.reveals.slice(0, -1);
+    this.reveals = [];
+    this.revealedRooms.clear();
+    this.exploredLinks.clear();
+    reveals.forEach(reveal => this.apply(reveal));
+    return true;
+  }
+
+  /**
+   * Lists the links that lead from a revealed room to a hidden one, by index:
+   * the doorways the players know about but haven't been through
+   */
+  getUnknownDoorways(includeSecondary: boolean): number[] {
+    return this.graph.links
+      .map((link, index) => ({ link, index }))
+      .filter(({ link }) => includeSecondary || link.type !== 'secondary')
+      .filter(({ link }) => this.revealedRooms.has(link.source.id) !== this.revealedRooms.has(link.target.id))
+      .map(({ index }) => index);
+  }
+
+  private apply(reveal: RevealEvent) {
+    this.reveals.push(reveal);
+    if ('roomId' in reveal) {
+      this.revealedRooms.add(reveal.roomId);
+    } else {
+      const link = this.graph.links[reveal.linkIndex];
+      this.exploredLinks.add(reveal.linkIndex);
+      this.revealedRooms.add(link.source.id);
+      this.revealedRooms.add(link.target.id);
+    }
+  }
+}
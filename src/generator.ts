@@ -3,9 +3,8 @@
 // TODO: improve the design
 
 // v1.1
-// TODO: think about combining rooms into a large cell, maybe 2x2 or 3x3
 // TODO: bias rooms types based on the ship type, and overall ship layout 
-// -- eg cargo ships have bulkheads and narrow corridors, engines go at the bottom
+// -- eg cargo ships have bulkheads, engines go at the bottom
 // TODO: Add officer/captains quarters
 // TODO: define crew, for active ships
 // TODO: roll up a ship sheet as well, use rolls for hardpoints and weapon placement
@@ -24,6 +23,7 @@ import type {
   GenerationConfig,
 } from './types';
 import { Dice } from './dice';
+import type { PRNG } from './prng';
 import type { GridCell } from './AStarGrid';
 import { DUNGEON_CONSTANTS } from './constants';
 
@@ -32,6 +32,7 @@ export class DungeonGenerator {
   private dungeonWidth: number = 0;
   private dungeonHeight: number = 0;
   private graph: DungeonGraph = { rooms: [], links: [] };
+  private dice: Dice;
   private readonly directions = [
     { x: 0, y: -1 }, // North
     { x: 0, y: 1 }, // South
@@ -39,8 +40,9 @@ export class DungeonGenerator {
     { x: -1, y: 0 }, // West
   ] as const;
 
-  constructor() {
+  constructor(rng: PRNG) {
     this.cellSize = DUNGEON_CONSTANTS.CELL_SIZE;
+    this.dice = new Dice(rng.fork('layout'));
   }
 
   private createRoom(id: number, x: number, y: number): RoomNode {
@@ -122,7 +124,7 @@ export class DungeonGenerator {
 
       // Prefer continuing in the same direction if possible
       let nextPos = validPositions[0];
-      if (lastDirection && Dice.d(100) <= directionalBias) {
+      if (lastDirection && this.dice.d(100) <= directionalBias) {
         const sameDirection = validPositions.find(
           (pos) =>
             pos.dir.x === lastDirection!.x && pos.dir.y === lastDirection!.y
@@ -142,7 +144,7 @@ export class DungeonGenerator {
 
     // Add branch rooms
     while (this.graph.rooms.length < numRooms) {
-      const sourceRoom = this.graph.rooms[Dice.d(this.graph.rooms.length) - 1];
+      const sourceRoom = this.graph.rooms[this.dice.d(this.graph.rooms.length) - 1];
       const validPositions = this.directions
         .map((dir) => ({
           x: sourceRoom.x / this.cellSize + dir.x,
@@ -159,7 +161,7 @@ export class DungeonGenerator {
 
       if (validPositions.length === 0) continue;
 
-      const pos = validPositions[Dice.d(validPositions.length) - 1];
+      const pos = validPositions[this.dice.d(validPositions.length) - 1];
       const newRoom = this.createRoom(this.graph.rooms.length, pos.x, pos.y);
       this.graph.rooms.push(newRoom);
       this.graph.links.push(this.createLink(sourceRoom, newRoom, 'door'));
@@ -167,11 +169,11 @@ export class DungeonGenerator {
 
     // Add secondary links
     const numSecondaryLinks =
-      minSecondaryLinks + Dice.d(maxSecondaryLinks - minSecondaryLinks + 1) - 1;
+      minSecondaryLinks + this.dice.d(maxSecondaryLinks - minSecondaryLinks + 1) - 1;
 
     for (let i = 0; i < numSecondaryLinks; i++) {
-      const room1 = this.graph.rooms[Dice.d(this.graph.rooms.length) - 1];
-      const room2 = this.graph.rooms[Dice.d(this.graph.rooms.length) - 1];
+      const room1 = this.graph.rooms[this.dice.d(this.graph.rooms.length) - 1];
+      const room2 = this.graph.rooms[this.dice.d(this.graph.rooms.length) - 1];
 
       if (
         room1.id !== room2.id &&
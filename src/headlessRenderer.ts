@@ -0,0 +1,658 @@
+import type { DungeonGraph, RoomNode, RoomLink, DoorPlacement, ExteriorFeature, RoomType } from './types';
+import type { NavigationGridData } from './renderer';
+import { DUNGEON_CONSTANTS } from './constants';
+import { RoomFootprints } from './roomFootprint';
+import { EXTERIOR_FEATURE_NAMES } from './exteriorFeatures';
+import { RoomStyles, type RoomLabelMode, type RoomPattern } from './roomStyles';
+import { SvgTree, type SvgElement } from './svgTree';
+import type { FogOfWar } from './fogOfWar';
+
+// Legend entries: a swatch, glyph and name per room type
+const LEGEND_ITEM_WIDTH = 150;
+const LEGEND_ROW_HEIGHT = 22;
+
+/**
+ * Draws ships on a square grid as an SVG tree, with no DOM, so maps can be made
+ * in Node as well as the browser. Links are revealed one step at a time.
+ *
+ * The drawing is a root <svg> holding, in order: pattern definitions, rooms,
+ * room labels, the legend, exterior features and the links drawn so far.
+ *
+ * With fog of war, the drawing is the players' view instead: only revealed rooms
+ * are drawn, and each step is a reveal.
+ */
+export class HeadlessRenderer {
+  private root: SvgElement = SvgTree.create('svg');
+  private graph: DungeonGraph | null = null;
+  private navigationData: NavigationGridData | null = null;
+  private currentStep: number = -1;
+  private linkGroup: SvgElement | null = null;
+  private renderSecondaryConnections: boolean = false;
+  private monochrome: boolean = false; // Fill rooms with patterns instead of colours, for printing
+  private roomLabels: RoomLabelMode = 'both';
+  private fog: FogOfWar | null = null;
+
+  private getCellSize(): number {
+    return DUNGEON_CONSTANTS.CELL_SIZE;
+  }
+
+  /**
+   * @param legendGraph The rooms the legend lists, when not all of them are drawn
+   */
+  private calculateOffsets(graph: DungeonGraph, legendGraph: DungeonGraph = graph) {
+    // Get the lowest room to determine height
+    const maxY = Math.max(...graph.rooms.map((d) => d.y));
+
+    // The cell size from constants
+    const cellSize = this.getCellSize();
+
+    // Add one cell margin on each side (left, right, top, bottom)
+    const margin = cellSize;
+
+    // Canvas width is the ship width in cells + 2 cells for margins
+    const shipWidth = graph.width ?? DUNGEON_CONSTANTS.SHIP_WIDTH;
+    const canvasWidth = shipWidth * cellSize + (margin * 2);
+
+    // Canvas height is based on the deck count (or the room positions) plus margin cells,
+    // and room for the legend below the ship
+    const numberOfRows = graph.height ?? Math.ceil(maxY / cellSize) + 1;
+    const canvasHeight = numberOfRows * cellSize + (margin * 2) + this.getLegendHeight(legendGraph, canvasWidth);
+
+    // Position the grid starting at the margin position (cellSize, cellSize)
+    return {
+      x: margin,
+      y: margin,
+      width: canvasWidth,
+      height: canvasHeight
+    };
+  }
+
+  private renderRooms(
+    graph: DungeonGraph,
+    offsetX: number,
+    offsetY: number
+  ) {
+    const cellSize = this.getCellSize();
+    const bounds = (d: RoomNode) => RoomFootprints.getBounds(d, cellSize);
+
+    const isCorridor = (d: RoomNode) => d.kind === 'corridor';
+    const centerX = (d: RoomNode) => (bounds(d).x + bounds(d).width / 2) * cellSize + offsetX;
+    const centerY = (d: RoomNode) => (bounds(d).y + bounds(d).height / 2) * cellSize + offsetY;
+
+    // Draw rooms as rectangles that fill every cell of their footprint,
+    // corridors are shaded with a lighter outline and drawn first so room walls stay on top
+    const roomGroup = SvgTree.append(this.root, 'g');
+    [...graph.rooms]
+      .sort((a, b) => Number(isCorridor(b)) - Number(isCorridor(a)))
+      .forEach((d) => SvgTree.append(roomGroup, 'rect', {
+        'width': bounds(d).width * cellSize,
+        'height': bounds(d).height * cellSize,
+        'x': bounds(d).x * cellSize + offsetX,
+        'y': bounds(d).y * cellSize + offsetY,
+        'fill': isCorridor(d) ? '#d4d4d4' : d.type ? this.getRoomFill(d.type) : 'white',
+        'stroke': isCorridor(d) ? '#737373' : 'black',
+        'stroke-width': isCorridor(d) ? 1 : 2
+      }, [
+        // Tooltip
+        SvgTree.create('title', {}, [`${d.name} (${d.id})`])
+      ]));
+
+    const rooms = graph.rooms.filter((d) => !isCorridor(d));
+    const typedRooms = rooms.filter((d) => d.type);
+    const labelGroup = SvgTree.append(this.root, 'g');
+
+    // Rooms with a type get their glyph, with their label (the type's abbreviation and room number) below
+    typedRooms.forEach((d) => SvgTree.append(labelGroup, 'text', {
+      'class': 'glyph',
+      'x': centerX(d),
+      'y': centerY(d) - 6,
+      'text-anchor': 'middle',
+      'dominant-baseline': 'central',
+      'font-size': '18px'
+    }, [RoomStyles.get(d.type!).glyph]));
+
+    typedRooms.forEach((d) => SvgTree.append(labelGroup, 'text', {
+      'class': 'label',
+      'x': centerX(d),
+      'y': centerY(d) + 13,
+      'text-anchor': 'middle',
+      'dominant-baseline': 'central',
+      'font-size': '10px',
+      'font-weight': 'bold'
+    }, [RoomStyles.getLabel(d, this.roomLabels)]));
+
+    // Rooms without a type just show their number at the centre of the footprint
+    rooms.filter((d) => !d.type).forEach((d) => SvgTree.append(labelGroup, 'text', {
+      'class': 'number',
+      'x': centerX(d),
+      'y': centerY(d),
+      'text-anchor': 'middle',
+      'dominant-baseline': 'central',
+      'font-size': '16px',
+      'font-weight': 'bold'
+    }, [String(d.id)]));
+  }
+
+  /**
+   * Gets a room type's fill: its colour, or its pattern on monochrome maps
+   */
+  private getRoomFill(roomType: RoomType): string {
+    const style = RoomStyles.get(roomType);
+    if (!this.monochrome) return style.fill;
+    return style.pattern === 'none' ? 'white' : `url(#${this.getPatternId(style.pattern)})`;
+  }
+
+  private getPatternId(pattern: RoomPattern): string {
+    return `room-pattern-${pattern}`;
+  }
+
+  /**
+   * Defines the monochrome patterns used by the rooms on the map
+   */
+  private renderPatterns(graph: DungeonGraph) {
+    const patterns = Array.from(new Set(
+      RoomStyles.getLegendTypes(graph.rooms).map((type) => RoomStyles.get(type).pattern)
+    )).filter((pattern) => pattern !== 'none');
+
+    const defs = SvgTree.append(this.root, 'defs');
+    for (const pattern of patterns) {
+      const tile = RoomStyles.getPatternTile(pattern, '#737373');
+      SvgTree.append(defs, 'pattern', {
+        'id': this.getPatternId(pattern),
+        'patternUnits': 'userSpaceOnUse',
+        'width': tile.size,
+        'height': tile.size
+      }, [SvgTree.create('rect', { width: tile.size, height: tile.size, fill: 'white' }), ...tile.shapes]);
+    }
+  }
+
+  /**
+   * Lays out the legend in as many columns as fit across the map
+   */
+  private getLegendLayout(graph: DungeonGraph, canvasWidth: number) {
+    const types = RoomStyles.getLegendTypes(graph.rooms);
+    const cellSize = this.getCellSize();
+    const columns = Math.max(1, Math.floor((canvasWidth - cellSize * 2) / LEGEND_ITEM_WIDTH));
+    const rows = Math.ceil(types.length / columns);
+    return { types, columns, rows };
+  }
+
+  private getLegendHeight(graph: DungeonGraph, canvasWidth: number): number {
+    const { rows } = this.getLegendLayout(graph, canvasWidth);
+    // Leave a cell clear below the ship, for exterior features on the bottom deck
+    return rows > 0 ? rows * LEGEND_ROW_HEIGHT + this.getCellSize() : 0;
+  }
+
+  /**
+   * Draws a legend for the room types on the map, below the ship
+   */
+  private renderLegend(graph: DungeonGraph, offsetX: number) {
+    const canvasWidth = Number(this.root.attributes.width);
+    const canvasHeight = Number(this.root.attributes.height);
+    const { types, columns } = this.getLegendLayout(graph, canvasWidth);
+
+    // The legend takes the bottom of the canvas, above the bottom margin
+    const top = canvasHeight - this.getLegendHeight(graph, canvasWidth);
+
+    const legend = SvgTree.append(this.root, 'g', { 'class': 'legend' });
+    types.forEach((d, i) => SvgTree.append(legend, 'g', {
+      'transform': `translate(${offsetX + (i % columns) * LEGEND_ITEM_WIDTH}, ${top + Math.floor(i / columns) * LEGEND_ROW_HEIGHT})`
+    }, [
+      SvgTree.create('rect', {
+        'width': 16,
+        'height': 16,
+        'fill': this.getRoomFill(d),
+        'stroke': 'black',
+        'stroke-width': 1
+      }),
+      SvgTree.create('text', {
+        'x': 8,
+        'y': 8,
+        'text-anchor': 'middle',
+        'dominant-baseline': 'central',
+        'font-size': '11px'
+      }, [RoomStyles.get(d).glyph]),
+      SvgTree.create('text', {
+        'x': 22,
+        'y': 8,
+        'dominant-baseline': 'central',
+        'font-size': '10px'
+      }, [`${RoomStyles.get(d).abbreviation} ${d}`])
+    ]));
+  }
+
+  private calculateLinkEndpoint(
+    source: RoomNode,
+    target: RoomNode,
+    offsetX: number,
+    offsetY: number
+  ) {
+    // Get the cell size
+    const cellSize = this.getCellSize();
+
+    // Get grid bounds of both footprints
+    const sourceBounds = RoomFootprints.getBounds(source, cellSize);
+    const targetBounds = RoomFootprints.getBounds(target, cellSize);
+
+    // Calculate direction vector between footprint centres
+    const dx = (targetBounds.x + targetBounds.width / 2) - (sourceBounds.x + sourceBounds.width / 2);
+    const dy = (targetBounds.y + targetBounds.height / 2) - (sourceBounds.y + sourceBounds.height / 2);
+
+    // Calculate center of the footprint
+    const centerX = (sourceBounds.x + sourceBounds.width / 2) * cellSize;
+    const centerY = (sourceBounds.y + sourceBounds.height / 2) * cellSize;
+
+    // Determine exit point on the rectangle (at the edge of the footprint)
+    let exitX, exitY;
+
+    if (Math.abs(dx) > Math.abs(dy)) {
+      // Horizontal dominant direction
+      exitX = (sourceBounds.x + (dx > 0 ? sourceBounds.width : 0)) * cellSize;
+      exitY = centerY;
+    } else {
+      // Vertical dominant direction
+      exitX = centerX;
+      exitY = (sourceBounds.y + (dy > 0 ? sourceBounds.height : 0)) * cellSize;
+    }
+
+    return {
+      x: exitX + offsetX,  // Add offsetX
+      y: exitY + offsetY   // Add offsetY
+    };
+  }
+
+  /**
+   * Creates the marker for a link at its door position.
+   * Doors are a short tick crossing the wall, and each vertical connector
+   * has its own glyph. Links without a door are drawn between the room
+   * edges facing each other.
+   */
+  private createLinkPath(link: RoomLink, offsetX: number, offsetY: number): string {
+    if (!link.door) {
+      const start = this.calculateLinkEndpoint(link.source, link.target, offsetX, offsetY);
+      const end = this.calculateLinkEndpoint(link.target, link.source, offsetX, offsetY);
+
+      return `M ${start.x} ${start.y} L ${end.x} ${end.y}`;
+    }
+
+    const reach = this.getCellSize() / 6;
+    const point = this.getEdgePoint(link.door, offsetX, offsetY);
+
+    switch (link.type) {
+      case 'lift':
+        // A lift car: a square with both diagonals
+        return `M ${point(-reach, -reach)} L ${point(-reach, reach)} L ${point(reach, reach)} L ${point(reach, -reach)} Z ` +
+          `M ${point(-reach, -reach)} L ${point(reach, reach)} M ${point(-reach, reach)} L ${point(reach, -reach)}`;
+      case 'ladder':
+        // Two rails with rungs between them
+        return `M ${point(-reach, -reach / 2)} L ${point(reach, -reach / 2)} M ${point(-reach, reach / 2)} L ${point(reach, reach / 2)} ` +
+          [-reach / 2, 0, reach / 2].map((rung) => `M ${point(rung, -reach / 2)} L ${point(rung, reach / 2)}`).join(' ');
+      case 'hatch':
+        // A round hatch cover
+        return `M ${point(0, -reach / 2)} A ${reach / 2} ${reach / 2} 0 1 0 ${point(0, reach / 2)} ` +
+          `A ${reach / 2} ${reach / 2} 0 1 0 ${point(0, -reach / 2)}`;
+      case 'maintenance-shaft':
+        // A zigzag crawlspace
+        return `M ${point(-reach, -reach / 2)} L ${point(-reach / 3, reach / 2)} L ${point(reach / 3, -reach / 2)} L ${point(reach, reach / 2)}`;
+      default:
+        return `M ${point(-reach, 0)} L ${point(reach, 0)}`;
+    }
+  }
+
+  /**
+   * Gets a function that places points relative to the midpoint of a cell edge.
+   * Points are measured through the wall (across, positive is away from the cell)
+   * and along it, and returned as an "x y" pair for use in a path.
+   */
+  private getEdgePoint(
+    edge: DoorPlacement,
+    offsetX: number,
+    offsetY: number
+  ): (across: number, along: number) => string {
+    const cellSize = this.getCellSize();
+
+    // Midpoint of the edge and the direction pointing through the wall
+    const normals = {
+      north: { x: 0, y: -1 },
+      south: { x: 0, y: 1 },
+      east: { x: 1, y: 0 },
+      west: { x: -1, y: 0 }
+    };
+    const normal = normals[edge.side];
+    const midX = (edge.x + 0.5 + normal.x / 2) * cellSize + offsetX;
+    const midY = (edge.y + 0.5 + normal.y / 2) * cellSize + offsetY;
+
+    return (across: number, along: number) =>
+      `${midX + normal.x * across - normal.y * along} ${midY + normal.y * across + normal.x * along}`;
+  }
+
+  /**
+   * Creates the glyph for an exterior feature, drawn on the outside of the hull wall
+   */
+  private createExteriorFeaturePath(feature: ExteriorFeature, offsetX: number, offsetY: number): string {
+    const reach = this.getCellSize() / 6;
+    const point = this.getEdgePoint(feature.position, offsetX, offsetY);
+
+    switch (feature.type) {
+      case 'airlock':
+        // A chamber with inner and outer doors
+        return `M ${point(0, -reach)} L ${point(reach * 1.5, -reach)} L ${point(reach * 1.5, reach)} L ${point(0, reach)} Z ` +
+          `M ${point(reach * 0.75, -reach)} L ${point(reach * 0.75, reach)}`;
+      case 'docking-collar':
+        // A wide collar ending in a ring
+        return `M ${point(0, -reach)} L ${point(reach, -reach)} L ${point(reach, reach)} L ${point(0, reach)} ` +
+          `M ${point(reach, -reach * 1.5)} L ${point(reach, reach * 1.5)}`;
+      case 'escape-pods':
+        // A row of pods
+        return [-reach, 0, reach].map((along) => {
+          const radius = reach / 3;
+          return `M ${point(radius, along - radius)} A ${radius} ${radius} 0 1 0 ${point(radius, along + radius)} ` +
+            `A ${radius} ${radius} 0 1 0 ${point(radius, along - radius)}`;
+        }).join(' ');
+    }
+  }
+
+  private renderExteriorFeatures(
+    graph: DungeonGraph,
+    offsetX: number,
+    offsetY: number
+  ) {
+    const featureGroup = SvgTree.append(this.root, 'g');
+    (graph.exteriorFeatures || []).forEach((d) => SvgTree.append(featureGroup, 'path', {
+      'class': d.type,
+      'stroke': 'black',
+      'stroke-width': 2,
+      'fill': 'white',
+      'd': this.createExteriorFeaturePath(d, offsetX, offsetY)
+    }, [
+      SvgTree.create('title', {}, [`${EXTERIOR_FEATURE_NAMES[d.type]} (${d.room.name})`])
+    ]));
+  }
+
+  private renderLink(link: RoomLink, offsetX: number, offsetY: number) {
+    if (!this.linkGroup) return;
+
+    SvgTree.append(this.linkGroup, 'path', {
+      'class': link.type,
+      'stroke': link.type === 'secondary' ? 'red' : 'black',
+      'stroke-width': link.type === 'secondary' ? 1 : 2,
+      'fill': 'none',
+      'stroke-dasharray': link.type === 'secondary' ? '4,4' : 'none',
+      'd': this.createLinkPath(link, offsetX, offsetY)
+    });
+  }
+
+  private renderStep() {
+    if (!this.graph || !this.navigationData || !this.linkGroup) return;
+
+    const { x: offsetX, y: offsetY } = this.calculateOffsets(this.graph);
+    const currentLink = this.graph.links[this.currentStep];
+
+    if (!currentLink) return;
+
+    // Skip secondary connections if disabled
+    if (currentLink.type === 'secondary' && !this.renderSecondaryConnections) {
+      return;
+    }
+
+    // Render the current link
+    this.renderLink(currentLink, offsetX, offsetY);
+  }
+
+  /**
+   * Gets the part of the ship the players can see: everything without fog of war,
+   * otherwise just the revealed rooms and the features on their hulls
+   */
+  private getVisibleGraph(graph: DungeonGraph): DungeonGraph {
+    const fog = this.fog;
+    if (!fog) return graph;
+
+    return {
+      ...graph,
+      rooms: graph.rooms.filter((d) => fog.isRoomRevealed(d.id)),
+      exteriorFeatures: (graph.exteriorFeatures || []).filter((d) => fog.isRoomRevealed(d.room.id))
+    };
+  }
+
+  /**
+   * Draws the links the players can see: those between revealed rooms, and unknown
+   * doorways leading out of them
+   */
+  private renderRevealedLinks(fog: FogOfWar, offsetX: number, offsetY: number) {
+    if (!this.graph) return;
+
+    this.graph.links
+      .filter((link) => link.type !== 'secondary' || this.renderSecondaryConnections)
+      .filter((link) => fog.isRoomRevealed(link.source.id) && fog.isRoomRevealed(link.target.id))
+      .forEach((link) => this.renderLink(link, offsetX, offsetY));
+
+    fog.getUnknownDoorways(this.renderSecondaryConnections)
+      .forEach((index) => this.renderUnknownDoorway(fog, index, offsetX, offsetY));
+  }
+
+  /**
+   * Draws a link to a hidden room: its marker in grey, with a question mark on the hidden side.
+   * The group carries the link's index, so the page can explore it when clicked.
+   */
+  private renderUnknownDoorway(fog: FogOfWar, index: number, offsetX: number, offsetY: number) {
+    if (!this.graph || !this.linkGroup) return;
+
+    const link = this.graph.links[index];
+    const sourceHidden = !fog.isRoomRevealed(link.source.id);
+    const cellSize = this.getCellSize();
+
+    // Doors sit on a cell of the source room, so the hidden side is the neighbouring cell
+    // or the door's own cell. Links without a door are marked where they leave the revealed room.
+    const [revealed, hidden] = sourceHidden ? [link.target, link.source] : [link.source, link.target];
+    let x: number, y: number;
+    if (link.door) {
+      [x, y] = this.getEdgePoint(link.door, offsetX, offsetY)(sourceHidden ? -cellSize / 2 : cellSize / 2, 0).split(' ').map(Number);
+    } else {
+      ({ x, y } = this.calculateLinkEndpoint(revealed, hidden, offsetX, offsetY));
+    }
+
+    SvgTree.append(this.linkGroup, 'g', { 'class': 'unknown-doorway', 'data-link': index }, [
+      SvgTree.create('title', {}, ['Unexplored']),
+      ...(link.door ? [SvgTree.create('path', {
+        'class': link.type,
+        'stroke': '#737373',
+        'stroke-width': 2,
+        'fill': 'none',
+        'd': this.createLinkPath(link, offsetX, offsetY)
+      })] : []),
+      SvgTree.create('text', {
+        'x': x,
+        'y': y,
+        'text-anchor': 'middle',
+        'dominant-baseline': 'central',
+        'font-size': '16px',
+        'font-weight': 'bold',
+        'fill': '#737373'
+      }, ['?'])
+    ]);
+  }
+
+  /**
+   * Starts a new drawing of the ship, with no links yet, or as the players see it under fog of war
+   */
+  private draw() {
+    if (!this.graph) return;
+
+    // Start a new drawing at the size of the ship and its legend
+    const visible = this.getVisibleGraph(this.graph);
+    const { x: offsetX, y: offsetY, width, height } = this.calculateOffsets(this.graph, visible);
+    this.root = SvgTree.create('svg', { width, height });
+
+    // Render rooms, filled by type, and a legend of the types on the map
+    this.renderPatterns(visible);
+    this.renderRooms(visible, offsetX, offsetY);
+    this.renderLegend(visible, offsetX);
+
+    // Render airlocks, docking collars and escape pods on the hull
+    this.renderExteriorFeatures(visible, offsetX, offsetY);
+
+    // Create empty link group for step-by-step rendering
+    this.linkGroup = SvgTree.append(this.root, 'g');
+
+    if (this.fog) {
+      this.renderRevealedLinks(this.fog, offsetX, offsetY);
+    }
+  }
+
+  public initializeRender(graph: DungeonGraph, navigationData: NavigationGridData): void {
+    this.navigationData = navigationData;
+    this.graph = graph;
+    this.currentStep = -1;
+    this.draw();
+  }
+
+  public nextStep(): boolean {
+    if (this.fog) {
+      if (!this.fog.revealNext(this.renderSecondaryConnections)) return false;
+      this.draw();
+      return true;
+    }
+
+    if (!this.graph || this.currentStep >= this.graph.links.length - 1) {
+      return false;
+    }
+
+    this.currentStep++;
+
+    // Skip secondary connections if disabled
+    if (
+      this.renderSecondaryConnections === false &&
+      this.graph.links[this.currentStep].type === 'secondary'
+    ) {
+      return this.nextStep();
+    }
+
+    this.renderStep();
+    return true;
+  }
+
+  public previousStep(): boolean {
+    if (this.fog) {
+      if (!this.fog.undo()) return false;
+      this.draw();
+      return true;
+    }
+
+    if (!this.graph || this.currentStep <= 0) {
+      return false;
+    }
+
+    // Remove the current step's rendering
+    if (this.linkGroup) {
+      this.linkGroup.children = [];
+    }
+
+    this.currentStep--;
+
+    // Skip secondary connections if disabled
+    if (
+      this.renderSecondaryConnections === false &&
+      this.graph.links[this.currentStep].type === 'secondary'
+    ) {
+      return this.previousStep();
+    }
+
+    // Re-render all steps up to the current one
+    for (let i = 0; i <= this.currentStep; i++) {
+      this.currentStep = i;
+      this.renderStep();
+    }
+
+    return true;
+  }
+
+  public getCurrentStep(): number {
+    if (this.fog) return this.fog.getReveals().length - 1;
+    return this.currentStep;
+  }
+
+  public getTotalSteps(): number {
+    if (!this.graph) return 0;
+
+    // Under fog of war, the reveals so far and those left
+    if (this.fog) {
+      return this.fog.getReveals().length + this.fog.countRemainingReveals(this.renderSecondaryConnections);
+    }
+
+    if (this.renderSecondaryConnections) {
+      return this.graph.links.length;
+    } else {
+      return this.graph.links.filter(link => link.type !== 'secondary').length;
+    }
+  }
+
+  public setRenderSecondaryConnections(render: boolean): void {
+    this.renderSecondaryConnections = render;
+  }
+
+  /**
+   * Fills rooms with black and white patterns instead of colours, for printing.
+   * Takes effect on the next render.
+   */
+  public setMonochrome(monochrome: boolean): void {
+    this.monochrome = monochrome;
+  }
+
+  /**
+   * Chooses what room labels show: type and number (the default), just the type, or just the number.
+   * Takes effect on the next render.
+   */
+  public setRoomLabels(mode: RoomLabelMode): void {
+    this.roomLabels = mode;
+  }
+
+  /**
+   * Draws the ship as the players see it, hiding rooms until they are revealed,
+   * or as a whole again when given null. Each step is then a reveal.
+   * Takes effect on the next render.
+   */
+  public setFogOfWar(fog: FogOfWar | null): void {
+    this.fog = fog;
+  }
+
+  /**
+   * Redraws the players' view, after the fog of war was changed other than by stepping
+   */
+  public refresh(): void {
+    if (this.fog) {
+      this.draw();
+    }
+  }
+
+  /**
+   * Gets the drawing as it stands, as a tree of SVG elements
+   */
+  public getTree(): SvgElement {
+    return this.root;
+  }
+
+  /**
+   * Gets the group holding the links drawn so far, the only part of the drawing the steps change
+   * (under fog of war, each step draws the whole drawing again)
+   */
+  public getLinkGroup(): SvgElement | null {
+    return this.linkGroup;
+  }
+
+  /**
+   * Gets the drawing as it stands, as a standalone SVG document's markup
+   */
+  public toSvg(): string {
+    return SvgTree.toDocument(this.root);
+  }
+
+  render(graph: DungeonGraph, navigationData: NavigationGridData): void {
+    // Initialize the render
+    this.initializeRender(graph, navigationData);
+
+    // Render all steps at once, unless the players are still exploring
+    if (!this.fog) {
+      while (this.nextStep()) { }
+    }
+  }
+}
@@ -0,0 +1,231 @@
+import { DUNGEON_CONSTANTS } from './constants';
+
+/**
+ * Named hull silhouettes a ship layout can be constrained to
+ */
+export type HullTemplateName =
+    | 'wedge'
+    | 'needle'
+    | 'saucer'
+    | 'hammerhead'
+    | 'catamaran'
+    | 'ring';
+
+/**
+ * Defines a hull silhouette as a cell mask
+ * Each string is one row, running from the top deck to the bottom deck.
+ * '#' marks a hull cell rooms may be placed in, '.' marks open space.
+ * Masks are scaled to the ship's width and deck count when applied.
+ */
+export interface HullTemplate {
+    name: HullTemplateName;
+    description: string;
+    mask: string[];
+}
+
+/**
+ * A contiguous run of hull cells on a single deck
+ */
+export interface HullSegment {
+    start: number; // First hull cell (inclusive)
+    end: number;   // Last hull cell (inclusive)
+}
+
+export const HULL_TEMPLATES: Record<HullTemplateName, HullTemplate> = {
+    wedge: {
+        name: 'wedge',
+        description: 'Narrow bridge widening towards a broad engine section',
+        mask: [
+            '....###....',
+            '....###....',
+            '...#####...',
+            '...#####...',
+            '..#######..',
+            '..#######..',
+            '.#########.',
+            '###########'
+        ]
+    },
+    needle: {
+        name: 'needle',
+        description: 'Long, thin hull with flared drive housings',
+        mask: [
+            '.....#.....',
+            '....###....',
+            '....###....',
+            '....###....',
+            '....###....',
+            '....###....',
+            '...#####...',
+            '..#######..'
+        ]
+    },
+    saucer: {
+        name: 'saucer',
+        description: 'Wide disc on top of a narrow engineering stalk',
+        mask: [
+            '...#####...',
+            '.#########.',
+            '###########',
+            '###########',
+            '.#########.',
+            '...#####...',
+            '....###....',
+            '....###....'
+        ]
+    },
+    hammerhead: {
+        name: 'hammerhead',
+        description: 'Broad forward section on a narrow body',
+        mask: [
+            '###########',
+            '###########',
+            '.#########.',
+            '....###....',
+            '....###....',
+            '....###....',
+            '....###....',
+            '...#####...'
+        ]
+    },
+    catamaran: {
+        name: 'catamaran',
+        description: 'Twin hulls joined by a bridge section and a central cross-beam',
+        mask: [
+            '..#######..',
+            '###########',
+            '###.....###',
+            '###.....###',
+            '###########',
+            '###.....###',
+            '###.....###',
+            '###.....###'
+        ]
+    },
+    ring: {
+        name: 'ring',
+        description: 'Hull wrapped around a hollow core',
+        mask: [
+            '..#######..',
+            '.#########.',
+            '###.....###',
+            '##.......##',
+            '##.......##',
+            '###.....###',
+            '.#########.',
+            '..#######..'
+        ]
+    }
+};
+
+/**
+ * Utility class for applying hull templates to a ship grid
+ */
+export class HullTemplates {
+    /**
+     * Checks whether a name refers to a known hull template
+     */
+    static isHullTemplateName(name: string): name is HullTemplateName {
+        return Object.prototype.hasOwnProperty.call(HULL_TEMPLATES, name);
+    }
+
+    /**
+     * Lists the names of every hull template
+     */
+    static getNames(): HullTemplateName[] {
+        return Object.keys(HULL_TEMPLATES) as HullTemplateName[];
+    }
+
+    /**
+     * Scales a hull template to the ship's grid
+     * The first and last template rows always map to the top and bottom decks.
+     * Single-deck ships use the template's widest row.
+     *
+     * @param name The hull template to use (no template means every cell is hull)
+     * @param width The ship width in cells
+     * @param height The number of decks
+     * @returns A grid where true marks a hull cell
+     */
+    static getMask(name: HullTemplateName | undefined, width: number, height: number): boolean[][] {
+        if (!name) {
+            return Array(height)
+                .fill(null)
+                .map(() => Array(width).fill(true));
+        }
+
+        const template = HULL_TEMPLATES[name];
+        if (!template) {
+            throw new Error(`Unknown hull template: ${name}`);
+        }
+
+        const rows = template.mask;
+        const widestRow = rows.reduce((widest, row, index) =>
+            this.countHullCells(row) > this.countHullCells(rows[widest]) ? index : widest, 0);
+
+        return Array(height)
+            .fill(null)
+            .map((_, y) => {
+                const sourceY = height === 1
+                    ? widestRow
+                    : Math.round(y * (rows.length - 1) / (height - 1));
+                const row = rows[sourceY];
+
+                return Array(width)
+                    .fill(false)
+                    .map((_, x) => row[Math.floor((x + 0.5) * row.length / width)] === '#');
+            });
+    }
+
+    /**
+     * Finds the narrowest width a hull template can be scaled to, such that it and every
+     * wider ship have a hull cell beside the central spine on each deck more than one cell wide
+     * Any narrower and those decks are all spine, with nowhere to put rooms. Scaling rounds
+     * cells to the nearest template column, so a narrow width can pass where a wider one fails.
+     *
+     * @param name The hull template to use (no template means every cell is hull)
+     * @returns The minimum ship width in cells, never less than MIN_SHIP_WIDTH
+     */
+    static getMinWidth(name: HullTemplateName | undefined): number {
+        if (!name) {
+            return DUNGEON_CONSTANTS.MIN_SHIP_WIDTH;
+        }
+
+        // One deck per template row, so every row is checked as drawn; at the template's
+        // own width every row wider than one cell reaches past the spine
+        const rows = HULL_TEMPLATES[name].mask;
+        for (let width = rows[0].length - 1; width >= DUNGEON_CONSTANTS.MIN_SHIP_WIDTH; width--) {
+            const spineX = Math.floor(width / 2);
+            const mask = this.getMask(name, width, rows.length);
+            const besideSpine = mask.every((row, y) =>
+                this.countHullCells(rows[y]) <= 1 || row.some((hull, x) => hull && x !== spineX));
+            if (!besideSpine) {
+                return width + 1;
+            }
+        }
+
+        return DUNGEON_CONSTANTS.MIN_SHIP_WIDTH;
+    }
+
+    /**
+     * Splits one row of a hull mask into contiguous runs of hull cells
+     */
+    static getSegments(maskRow: boolean[]): HullSegment[] {
+        const segments: HullSegment[] = [];
+        let start = -1;
+
+        for (let x = 0; x <= maskRow.length; x++) {
+            if (x < maskRow.length && maskRow[x]) {
+                if (start === -1) start = x;
+            } else if (start !== -1) {
+                segments.push({ start, end: x - 1 });
+                start = -1;
+            }
+        }
+
+        return segments;
+    }
+
+    private static countHullCells(row: string): number {
+        return row.split('').filter(cell => cell === '#').length;
+    }
+}
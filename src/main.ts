@@ -1,10 +1,20 @@
 import './styles.css';
-import { DungeonGenerator } from './generator';
-import { ShipGenerator } from './shipGenerator';
 import { SquareCellRenderer } from './renderer';
-import { PRNG } from './prng';
-import { Dice } from './dice';
-import { DUNGEON_CONSTANTS } from './constants';
+import { TextRenderer } from './textRenderer';
+import { RollLog } from './rollLog';
+import { TablePacks, type TablePack } from './tablePack';
+import { Rulesets, type RulesetName } from './rulesets';
+import { RoomAssigner } from './roomAssignment';
+import { RoomTypeOptimizer } from './roomTypeOptimizer';
+import type { RoomLabelMode } from './roomStyles';
+import { ShipSheets, type RolledShip, type ShipLore, type ShipSheet } from './shipSheet';
+import { ShipExport, type EmbeddedFont } from './shipExport';
+import { FogOfWar, type FogOfWarSave } from './fogOfWar';
+import type { DungeonGraph } from './types';
+import shipbreakersPackSource from './packs/shipbreakers.yaml?raw';
+import deadPlanetPackSource from './packs/deadPlanet.yaml?raw';
+import dejaVuSansUrl from 'dejavu-fonts-ttf/ttf/DejaVuSans.ttf?url';
+import dejaVuSansBoldUrl from 'dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf?url';
 
 
 const svgElement = document.querySelector<SVGSVGElement>('#dungeon-svg');
@@ -27,20 +37,34 @@ const cargoElement = document.querySelector<HTMLElement>('#cargo');
 const causeOfRuinElement = document.querySelector<HTMLElement>('#cause-of-ruin');
 const weirdFeatureElement = document.querySelector<HTMLElement>('#weird-feature');
 const randomCargoElement = document.querySelector<HTMLElement>('#random-cargo');
+const rollLogElement = document.querySelector<HTMLElement>('#roll-log');
+const rollLogSection = document.querySelector<HTMLElement>('#roll-log-section');
+const tablePackInput = document.querySelector<HTMLInputElement>('#table-pack-input');
+const tablePackStatus = document.querySelector<HTMLElement>('#table-pack-status');
+const rulesetSelect = document.querySelector<HTMLSelectElement>('#ruleset-select');
+const monochromeCheckbox = document.querySelector<HTMLInputElement>('#monochrome-map');
+const exportSvgButton = document.querySelector<HTMLButtonElement>('#export-svg');
+const roomLabelsSelect = document.querySelector<HTMLSelectElement>('#room-labels');
+const textMapElement = document.querySelector<HTMLElement>('#text-map');
+const copyTextMapButton = document.querySelector<HTMLButtonElement>('#copy-text-map');
+const fogOfWarCheckbox = document.querySelector<HTMLInputElement>('#fog-of-war');
 
 const controlsContainer = document.querySelector('.controls');
 
 // Local storage keys
 const SEED_KEY = 'dungeon-seed';
 const PERSIST_SEED_KEY = 'persist-dungeon-seed';
+const FOG_OF_WAR_KEY = 'fog-of-war';
+const FOG_OF_WAR_ENABLED_KEY = 'fog-of-war-enabled';
 
 // Check if we should use a persisted seed
 const shouldPersistSeed = localStorage.getItem(PERSIST_SEED_KEY) === 'true';
-let seed: number;
+// Seeds are kept as strings, so any text (e.g. "IAGO-MARAX-7") can be used as a seed
+let seed: string;
 
 if (shouldPersistSeed && localStorage.getItem(SEED_KEY)) {
   // Use the persisted seed if available and persistence is enabled
-  seed = parseInt(localStorage.getItem(SEED_KEY) || '', 10);
+  seed = localStorage.getItem(SEED_KEY) || '';
 
   // Update the checkbox state
   if (persistSeedCheckbox) {
@@ -48,14 +72,11 @@ if (shouldPersistSeed && localStorage.getItem(SEED_KEY)) {
   }
 } else {
   // Otherwise use the current timestamp
-  seed = Date.now();
+  seed = Date.now().toString();
 }
 
-// Initialize the PRNG with the seed
-new PRNG(seed);
-
 if (seedInput) {
-  seedInput.value = seed.toString();
+  seedInput.value = seed;
 }
 
 // Set up event listeners for seed controls
@@ -70,429 +91,219 @@ if (persistSeedCheckbox) {
   });
 }
 
-type ShipTypeDeadPlanet = {
-  name: string;
-  minDecks: number;
-  maxDecks: number;
-  roomsPerDeck: string;
-}
+// The default Shipbreakers tables, plus any table packs loaded on the page.
+// Lore outcomes can contain dice notation (e.g. "4D10 Containers of Ore"), rolled
+// when the entry comes up, and references to other tables (e.g. [[randomCargo]]).
+const defaultPack = TablePacks.parse(shipbreakersPackSource);
+let loadedTables = TablePacks.load([defaultPack]);
+let userPacks: TablePack[] = [];
 
-const shipTypesDeadPlanet: Record<number, ShipTypeDeadPlanet> = {
-  0: { name: "Mining Frigate", minDecks: 10, maxDecks: 16, roomsPerDeck: "2d6" },
-  35: { name: "Freighter", minDecks: 5, maxDecks: 8, roomsPerDeck: "3d6" },
-  58: { name: "Raider", minDecks: 4, maxDecks: 4, roomsPerDeck: "1d6" },
-  72: { name: "Executive Transport", minDecks: 5, maxDecks: 5, roomsPerDeck: "2d6" },
-  81: { name: "Exploration Vessel", minDecks: 10, maxDecks: 30, roomsPerDeck: "4d6" },
-  85: { name: "Jumpliner", minDecks: 10, maxDecks: 15, roomsPerDeck: "3d6" },
-  89: { name: "Corvette", minDecks: 5, maxDecks: 8, roomsPerDeck: "5d6" },
-  92: { name: "Troopship", minDecks: 15, maxDecks: 30, roomsPerDeck: "3d6" },
-  96: { name: "Colony Ship", minDecks: 20, maxDecks: 60, roomsPerDeck: "5d6" },
-}
+// The ruleset decides how decks and rooms are rolled. Dead Planet brings its own
+// ship types (with deck ranges and rooms per deck) but keeps the Shipbreakers lore.
+const deadPlanetPack = TablePacks.parse(deadPlanetPackSource);
 
-type ShipTypeShipBreakers = {
-  name: string;
-  decks: string;
-}
+// Every built-in ship type needs its own room distribution (packs can add ship types that use the default)
+RoomAssigner.checkDistributions([defaultPack, deadPlanetPack].flatMap(pack =>
+  Object.values(pack.shipTypes?.outcomes ?? {}).map(shipType => shipType.name)
+));
+let ruleset: RulesetName = 'shipbreakers';
 
-const shipTypesShipBreakers: Record<number, ShipTypeShipBreakers> = {
-  0: { name: "Mining Frigate", decks: "2d6" },
-  35: { name: "Freighter", decks: "3d6" },
-  58: { name: "Raider", decks: "1d6" },
-  72: { name: "Executive Transport", decks: "2d6" },
-  81: { name: "Exploration Vessel", decks: "4d6" },
-  85: { name: "Jumpliner", decks: "3d6" },
-  89: { name: "Corvette", decks: "5d6" },
-  92: { name: "Troopship", decks: "3d6" },
-  96: { name: "Colony Ship", decks: "5d6" },
-}
+// The sheet for the ship on the page, for naming exports
+let currentSheet: ShipSheet | null = null;
 
-/**
- * Space Encounter Table (d100)
- * Used to determine random encounters in deep space
- */
-const shipTypeTable = Dice.createOutcomeTable<ShipTypeShipBreakers>(
-  100,
-  1,
-  shipTypesShipBreakers
-);
-
-const shipStatusTable = Dice.createOutcomeTable(
-  100,
-  1,
-  {
-    0: "Uninhabitable",
-    85: "Habitable (Non-Functioning)",
-    95: "Habitable (Functioning)"
-  }
-);
-
-const survivorsTable = Dice.createOutcomeTable(
-  100,
-  1,
-  {
-    0: "No Survivors",
-    90: "2D10 Survivors (In Cryosleep)",
-    96: "Survivors"
-  }
-);
-
-const shipSystemsTable = Dice.createOutcomeTable(
-  100,
-  1,
-  {
-    0: "Reactor, Thrusters, Jump Drive non-functioning",
-    81: "Stable Reactor, Thrusters, Jump Drive",
-    94: "Unstable Warp Cores"
-  }
-);
-
-const salvageTable = Dice.createOutcomeTable(
-  100,
-  1,
-  {
-    0: `${Dice.roll(100, 2).total} Scrap`,
-    50: `${Dice.roll(10, 1).total} Fuel`,
-    76: `${Dice.roll(5, 1).total} Warp Cores`,
-    82: `${Dice.roll(10, 1).total} Cryopods`,
-    86: "Medbay",
-    89: "Weapon",
-    92: "Computer",
-    96: "Jump Drive"
-  }
-);
-
-const cargoTable = Dice.createOutcomeTable(
-  100,
-  1,
-  {
-    0: `${Dice.roll(10, 4).total} Containers of Ore`,
-    61: `${Dice.roll(10, 3).total} Containers of Metal`,
-    76: `${Dice.roll(10, 1).total} Containers of Random Cargo`,
-    86: `${Dice.roll(10, 1).total} Containers of Precious Metal`,
-    93: `${Dice.roll(5, 1).total} Containers of Contraband`
-  }
-);
-
-const causeOfRuinTable = Dice.createOutcomeTable(
-  100,
-  1,
-  {
-    0: "Virus",
-    1: "Combat",
-    10: "Raided by Pirates",
-    20: "Jump Drive Malfunction",
-    25: "Abandoned Ship",
-    30: "Rogue AI",
-    35: "Mutiny",
-    40: "Crash: Other Ship",
-    45: "Crash: Space Debris",
-    50: "Crash: Jump Drive Miscalculation",
-    55: "Engine Failure",
-    58: "Cannibalism",
-    61: "Nerve Gas",
-    64: "Escape Pod Never Returned",
-    67: "Betrayal/Backstabbing",
-    70: "Succumbed to Nightmares",
-    72: "Hatch Opened, No Air",
-    74: "Cargo Created Mishap",
-    76: "Starvation",
-    78: "Part of a Conspiracy",
-    80: "Thrusters Slagged",
-    81: "Weapons System Malfunction",
-    82: "Cryosleep Never Disengaged",
-    83: "Complex Series of Events",
-    84: "Suicide Pact",
-    85: "Parasite Infestation",
-    86: "Environmental Systems Failure",
-    87: "Uncontrollable Fire",
-    88: "Failed Fraud Attempt",
-    89: "Void Worshiping",
-    90: "Bizarre Love Triangle",
-    91: "Fight Spiraled Out of Control",
-    92: "Chainsaw Rampage",
-    93: "Drug Addled Debauchery",
-    94: "Fatal Depressurization",
-    95: "Nightmares Ending in Heart Attack",
-    96: "Mob Hit",
-    97: "Crew Members Vanished",
-    98: "Prank Taken Too Far",
-    99: "William Tell Trick"
-  }
-);
-
-const weirdTable = Dice.createOutcomeTable(
-  100,
-  1,
-  {
-    0: "Haunted",
-    1: "Inhabited by Alien Life",
-    10: "Terraformed by Strange Creatures",
-    20: "Crew Dressed for Costume Party",
-    25: "Crew All Identical",
-    30: "Crew was preparing Theatrical Performance",
-    35: "Morbid Artwork",
-    40: "Pet Hoarders",
-    45: "Erotic Sculptures",
-    50: "Communist Regalia",
-    55: "Company Uniform",
-    58: "Cult Members",
-    61: "Extensive Journals Kept",
-    64: "Strange Health Obsession",
-    67: "Unnervingly Clean",
-    70: "Android was poisoning Captain",
-    72: "Ancient Ship",
-    74: "Temporal Distortions",
-    76: "Failed Utopia",
-    78: "Crew Weighed and Measured Weekly",
-    80: "Extensive Body Modification",
-    81: "Isolated Physics Anomalies",
-    82: "Sexual Deviants",
-    83: "Religious Extremists",
-    84: "Transhumanist Android Worshipers",
-    85: "Anti-Android Conspirators",
-    86: "Nauseating Stench",
-    87: "Everything is Jury-Rigged",
-    88: "Crew Taking Video Through the Catastrophe",
-    89: "Body Horror",
-    90: "Scooby-Doo Crew",
-    91: "Interior Coated in Flesh, Doors are Membranes",
-    92: "Whispering Echoes Always a Room Ahead",
-    93: "Dolls in Macabre Tableaux",
-    94: "Dead Crew: Exploded Heads",
-    95: "Elaborately Posed Corpses (Hooks & Chains)",
-    96: "Flickering Lights and Frenzied Screams",
-    97: "Ship Rearranges Itself Frequently",
-    98: "Ship Has Infinite Depth",
-    99: "Fruit Basket, Greeting Card Inexplicably Addressed to Crew"
-  }
-);
-
-const randomCargoTable = Dice.createOutcomeTable(
-  100,
-  1,
-  {
-    0: "Body Bags (Full)",
-    1: "Wine",
-    10: "Complex Navigational Equipment",
-    20: "Ceramics",
-    25: "Antique Books",
-    30: "Garden Gnomes (Full of Illegal Stimulants)",
-    35: "Opium",
-    40: "Tea",
-    45: "Silver Bars",
-    50: "Sensitive Documents",
-    55: "Anthropology Mission",
-    58: "Botanists/Horticulturists",
-    61: "Industrial Engineers/Architects",
-    64: "Terraforming Equipment",
-    67: "Hydroponic Plants",
-    70: "Rare Wood",
-    72: "Lab Rats",
-    74: "Cultured Cells",
-    76: "Cremains",
-    78: "Drug Production Starter Equipment",
-    80: "Common Cloth",
-    81: "Designer Clothes",
-    82: "Expensive Fish (Food)",
-    83: "Pets",
-    84: "Plastic Junk (gewgaws)",
-    85: "Legionaries (guns & ammo)",
-    86: "Religious Pilgrims (religious texts and symbols)",
-    87: "Compressed Algae Blocks (1 = days rations, gross)",
-    88: "Disarmed Ordnance (lacking detonators)",
-    89: "Cars (high end)",
-    90: "Medicine",
-    91: "Cosmetics",
-    92: "Race Horse Reproductive Material",
-    93: "Livestock",
-    94: "Prisoners",
-    95: "Mobile Black Site (used for completely illegal interrogation)",
-    96: "Census Takers",
-    97: "Cadmium",
-    98: "Preserved Fruit",
-    99: "Refugees"
-  }
-);
-
-const namePartATable = Dice.createOutcomeTable(
-  10,
-  1,
-  {
-    0: "IAGO",
-    1: "HECATE",
-    2: "OBERON",
-    3: "WHITEHALL",
-    4: "DUNCAN",
-    5: "BANQUO",
-    6: "WINTER",
-    7: "MARLOWE",
-    8: "TEMPEST",
-    9: "FAUST"
-  }
-);
-
-const namePartBTable = Dice.createOutcomeTable(
-  10,
-  1,
-  {
-    0: "VALEFOR",
-    1: "OPHANIM",
-    2: "MARAX",
-    3: "MARINER",
-    4: "LABOLAS",
-    5: "ASTAROTH",
-    6: "CHERUBIM",
-    7: "TYRANT",
-    8: "BALAAM",
-    9: "MURMUR"
-  }
-);
-
-const namePartCTable = Dice.createOutcomeTable(
-  10,
-  1,
-  {
-    0: "ECHO",
-    1: "ALPHA",
-    2: "OMEGA",
-    3: "KING",
-    4: "BEGGAR",
-    5: "DELTA",
-    6: "EPSILON",
-    7: "JIBRIL",
-    8: "BRAVO",
-    9: "TANGO"
-  }
-);
+// The ship on the page, for showing more of it as the players explore
+let currentShip: RolledShip | null = null;
 
+// What the players have seen of the ship on the page, when the map is their view
+let fogOfWar: FogOfWar | null = null;
 
-// Function to generate a dungeon with a specific seed
-async function generateDungeon(seedValue: number) {
+// Picks up the players' session for this ship where it left off, or starts one with everything hidden.
+// Sessions are saved per ship, so switching seeds and back keeps each one.
+const loadFogOfWar = (dungeon: DungeonGraph): FogOfWar => {
+  const saved = localStorage.getItem(`${FOG_OF_WAR_KEY}:${ruleset}:${seed}`);
+  if (!saved) return new FogOfWar(dungeon);
 
-  // Store the seed if persistence is enabled
-  if (persistSeedCheckbox && persistSeedCheckbox.checked) {
-    localStorage.setItem(SEED_KEY, seedValue.toString());
+  try {
+    const save: FogOfWarSave = JSON.parse(saved);
+    // Different packs roll a different ship from the same seed
+    if (save.packs.join(',') !== loadedTables.packs.join(',')) return new FogOfWar(dungeon);
+    return FogOfWar.fromSave(dungeon, save);
+  } catch (error) {
+    console.error("Error resuming fog of war:", error);
+    return new FogOfWar(dungeon);
   }
+};
 
-  // Generate ship name
-  const namePartA = Dice.rollWithOutcome(namePartATable);
-  const namePartB = Dice.rollWithOutcome(namePartBTable);
-  const namePartC = Dice.rollWithOutcome(namePartCTable);
-  const shipName = `${namePartA} ${namePartB} ${namePartC}`;
+const saveFogOfWar = () => {
+  if (!fogOfWar) return;
+  const save = fogOfWar.toSave({ seed, ruleset, packs: loadedTables.packs });
+  localStorage.setItem(`${FOG_OF_WAR_KEY}:${ruleset}:${seed}`, JSON.stringify(save));
+};
 
-  // Update ship name in the UI
-  if (shipNameElement) {
-    shipNameElement.textContent = shipName;
-  }
+// Loads the default tables for the ruleset, with the user's packs on top
+const loadTables = () => {
+  const rulesetPacks = ruleset === 'dead-planet' ? [defaultPack, deadPlanetPack] : [defaultPack];
+  loadedTables = TablePacks.load([...rulesetPacks, ...userPacks]);
 
-  const shipType = Dice.rollWithOutcome(shipTypeTable);
-  if (shipTypeElement) {
-    shipTypeElement.textContent = `${shipType.name}`;
+  if (tablePackStatus) {
+    tablePackStatus.className = 'text-gray-500 text-sm mt-1';
+    tablePackStatus.textContent = `Using ${loadedTables.packs.join(', ')}`;
   }
+};
 
-  const shipStatus = Dice.rollWithOutcome(shipStatusTable);
-  if (shipStatusElement) {
-    shipStatusElement.textContent = shipStatus;
-  }
+// Lists the ship's rooms and draws its text map: all of it for the referee, or
+// only what the players have found so far when the map is their view
+const showShipDetails = () => {
+  if (!currentShip) return;
+  const { sheet, dungeon, explanations: roomTypeExplanations } = currentShip;
 
-  const survivors = Dice.rollWithOutcome(survivorsTable);
-  if (survivorsElement) {
-    survivorsElement.textContent = survivors;
+  // Show how each roll came out, unless the players are looking
+  if (rollLogSection) {
+    rollLogSection.hidden = fogOfWar !== null;
   }
-
-  const shipSystems = Dice.rollWithOutcome(shipSystemsTable);
-  if (shipSystemsElement) {
-    shipSystemsElement.textContent = shipSystems;
+  if (rollLogElement) {
+    rollLogElement.innerHTML = '';
+    (fogOfWar ? [] : dungeon.rollLog || []).forEach(event => {
+      const eventElement = document.createElement('li');
+      eventElement.textContent = RollLog.describe(event);
+      rollLogElement.appendChild(eventElement);
+    });
   }
 
-  const salvage = Dice.rollWithOutcome(salvageTable);
-  if (salvageElement) {
-    salvageElement.textContent = salvage;
+  // The same map as text, for pasting into chat or notes
+  if (textMapElement) {
+    textMapElement.textContent = textRenderer.render(fogOfWar ? fogOfWar.getVisibleGraph() : dungeon);
   }
 
-  const cargo = Dice.rollWithOutcome(cargoTable);
-  if (cargoElement) {
-    cargoElement.textContent = cargo;
-  }
+  // Display room assignments in the UI
+  const roomAssignmentsElement = document.querySelector<HTMLElement>('#room-assignments');
+  if (roomAssignmentsElement) {
+    // Clear previous assignments
+    roomAssignmentsElement.innerHTML = '';
 
-  const causeOfRuin = Dice.rollWithOutcome(causeOfRuinTable);
-  if (causeOfRuinElement) {
-    causeOfRuinElement.textContent = causeOfRuin;
-  }
+    // Explain how well each room's type fits the placement rules, for the referee only
+    const explanations = new Map(fogOfWar ? [] : roomTypeExplanations.map(explanation => [explanation.roomId, explanation]));
 
-  const weird = Dice.rollWithOutcome(weirdTable);
-  if (weirdFeatureElement) {
-    weirdFeatureElement.textContent = weird;
-  }
+    // Display each room with its ID, type, and position
+    sheet.rooms.filter(room => !fogOfWar || fogOfWar.isRoomRevealed(room.id)).forEach(room => {
+      const explanation = explanations.get(room.id);
+      const roomElement = document.createElement(explanation ? 'details' : 'div');
 
-  const randomCargo = Dice.rollWithOutcome(randomCargoTable);
-  if (randomCargoElement) {
-    randomCargoElement.textContent = randomCargo;
-  }
+      // Call out any airlocks, docking collars or escape pods on the room's hull
+      const exterior = room.exteriorFeatures.length > 0
+        ? `<span class="text-blue-600 ml-1">${room.exteriorFeatures.join(', ')}</span>`
+        : '';
 
-  let dungeon;
-  let navigationData;
+      const summary = `
+        <span class="font-medium">Room ${room.id}:</span> 
+        <span class="${room.type ? null : 'text-red-500'}">${room.type}</span> 
+        <span class="text-gray-500 ml-1">(${ShipSheets.describeLocation(room)})</span>
+        ${exterior}
+      `;
 
-  // Generate the ship layout
-  dungeon = shipGenerator.generateShipFromType(shipType);
+      if (explanation) {
+        // Expand a room to see why its type scores as it does
+        roomElement.innerHTML = `
+          <summary class="cursor-pointer">${summary}</summary>
+          <ul class="ml-4 text-xs text-gray-600">
+            ${RoomTypeOptimizer.describe(explanation).map(line => `<li>${line}</li>`).join('')}
+          </ul>
+        `;
+      } else {
+        roomElement.innerHTML = summary;
+      }
 
-  // Now let's explicitly try our RoomGenerator to see if it works
-  try {
-    // Use our existing RoomGenerator class that's already imported
-    const roomGenerator = new (await import('./roomGenerator')).RoomGenerator();
-    const enhancedShip = roomGenerator.applyRoomTypes(dungeon, shipType.name);
-    // We don't actually use the enhanced ship, this is just for logging
-  } catch (error) {
-  }
+      roomAssignmentsElement.appendChild(roomElement);
+    });
 
-  if (shipGenerator.validateDungeon(dungeon)) {
-    navigationData = shipGenerator.createNavigationGrid();
-  } else {
-    navigationData = shipGenerator.createNavigationGrid();
-    renderer.renderDebug(dungeon, navigationData);
-    return;
-  }
+    // The notes below are about how the ship was made, so they're for the referee only
+    if (fogOfWar) return;
+
+    // Note any connections the generator had to add to join the layout up
+    const repairNames = { 'door': 'Door', 'corridor': 'Junction', 'maintenance-shaft': 'Maintenance shaft' };
+    (dungeon.repairs || []).forEach(repair => {
+      const repairElement = document.createElement('div');
+      const rooms = repair.links
+        .flatMap(link => [link.source, link.target])
+        .filter(node => !repair.addedNodes?.includes(node))
+        .map(node => node.id);
+
+      repairElement.className = 'text-gray-500';
+      repairElement.textContent = `Repair: ${repairNames[repair.type]} added between ${rooms.join(' and ')}`;
+      roomAssignmentsElement.appendChild(repairElement);
+    });
 
-  // Initialize the render but don't draw links yet
-  renderer.initializeRender(dungeon, navigationData);
+    // Note any rooms the hull had no space for
+    if (dungeon.unplacedRooms) {
+      const unplacedElement = document.createElement('div');
+      unplacedElement.className = 'text-red-500';
+      unplacedElement.textContent = `Layout: ${dungeon.unplacedRooms} rolled room${dungeon.unplacedRooms === 1 ? '' : 's'} didn't fit in the hull`;
+      roomAssignmentsElement.appendChild(unplacedElement);
+    }
 
-  // Immediately advance to the last step
-  while (renderer.nextStep()) { }
+    // Note any room type constraints the ship couldn't meet
+    (dungeon.constraintViolations || []).forEach(violation => {
+      const violationElement = document.createElement('div');
+      violationElement.className = 'text-red-500';
+      violationElement.textContent = `Constraint: ${violation.message}`;
+      roomAssignmentsElement.appendChild(violationElement);
+    });
+  }
+};
 
-  // Display room assignments in the UI
-  const roomAssignmentsElement = document.querySelector<HTMLElement>('#room-assignments');
-  if (roomAssignmentsElement) {
-    // Clear previous assignments
-    roomAssignmentsElement.innerHTML = '';
+// Function to generate a dungeon with a specific seed
+async function generateDungeon(seedValue: string) {
+  seed = seedValue;
 
-    // Sort rooms by deck and then by position
-    const sortedRooms = [...dungeon.rooms].sort((a, b) => {
-      const deckA = Math.floor(a.y / DUNGEON_CONSTANTS.CELL_SIZE);
-      const deckB = Math.floor(b.y / DUNGEON_CONSTANTS.CELL_SIZE);
+  // Store the seed if persistence is enabled
+  if (persistSeedCheckbox && persistSeedCheckbox.checked) {
+    localStorage.setItem(SEED_KEY, seedValue);
+  }
 
-      // First sort by deck
-      if (deckA !== deckB) return deckA - deckB;
+  // Roll the ship's name, type, lore and layout
+  currentShip = ShipSheets.roll(seedValue, loadedTables, ruleset);
+  const { sheet, dungeon, navigationData } = currentShip;
+  currentSheet = sheet;
 
-      // Then by position within deck
-      return Math.floor(a.x / DUNGEON_CONSTANTS.CELL_SIZE) - Math.floor(b.x / DUNGEON_CONSTANTS.CELL_SIZE);
-    });
+  // Update the ship details in the UI
+  if (shipNameElement) {
+    shipNameElement.textContent = sheet.name;
+  }
+  if (shipTypeElement) {
+    shipTypeElement.textContent = sheet.shipType;
+  }
 
-    // Display each room with its ID, type, and position
-    sortedRooms.forEach(room => {
-      const roomElement = document.createElement('div');
-      const x = Math.floor(room.x / DUNGEON_CONSTANTS.CELL_SIZE);
-      const y = Math.floor(room.y / DUNGEON_CONSTANTS.CELL_SIZE);
+  const loreElements: Record<keyof ShipLore, HTMLElement | null> = {
+    status: shipStatusElement,
+    survivors: survivorsElement,
+    systems: shipSystemsElement,
+    salvage: salvageElement,
+    cargo: cargoElement,
+    causeOfRuin: causeOfRuinElement,
+    weird: weirdFeatureElement,
+    randomCargo: randomCargoElement
+  };
+  for (const [field, element] of Object.entries(loreElements) as Array<[keyof ShipLore, HTMLElement | null]>) {
+    if (element) {
+      element.textContent = sheet.lore[field];
+    }
+  }
 
-      roomElement.innerHTML = `
-        <span class="font-medium">Room ${room.id}:</span> 
-        <span class="${room.type ? null : 'text-red-500'}">${room.type}</span> 
-        <span class="text-gray-500 ml-1">(Deck ${y + 1}, Position ${x})</span>
-      `;
+  // Show the players only what they have found so far
+  fogOfWar = fogOfWarCheckbox?.checked ? loadFogOfWar(dungeon) : null;
+  renderer.setFogOfWar(fogOfWar);
 
-      roomAssignmentsElement.appendChild(roomElement);
-    });
+  // Initialize the render but don't draw links yet
+  renderer.initializeRender(dungeon, navigationData);
+
+  // Immediately advance to the last step, unless the players are exploring
+  if (!fogOfWar) {
+    while (renderer.nextStep()) { }
   }
 
+  // The room list, text map and notes show only what the players have found, under fog of war
+  showShipDetails();
+
   // Update step display
   updateStepDisplay();
 }
@@ -502,8 +313,8 @@ if (seedInput) {
   // Apply seed when Enter key is pressed in the input field
   seedInput.addEventListener('keydown', (event) => {
     if (event.key === 'Enter') {
-      const newSeed = parseInt(seedInput.value, 10);
-      if (!isNaN(newSeed)) {
+      const newSeed = seedInput.value.trim();
+      if (newSeed) {
         generateDungeon(newSeed).catch(error => {
           console.error("Error generating dungeon:", error);
         });
@@ -513,8 +324,8 @@ if (seedInput) {
 
   // Also apply seed when input loses focus
   seedInput.addEventListener('blur', () => {
-    const newSeed = parseInt(seedInput.value, 10);
-    if (!isNaN(newSeed)) {
+    const newSeed = seedInput.value.trim();
+    if (newSeed) {
       generateDungeon(newSeed).catch(error => {
         console.error("Error generating dungeon:", error);
       });
@@ -522,9 +333,52 @@ if (seedInput) {
   });
 }
 
-// Initialize generators
-const dungeonGenerator = new DungeonGenerator();
-const shipGenerator = new ShipGenerator();
+// Load table packs on top of the default pack, then reroll the current seed with them
+if (tablePackInput) {
+  tablePackInput.addEventListener('change', async () => {
+    const files = Array.from(tablePackInput.files || []);
+
+    const previousPacks = userPacks;
+
+    try {
+      userPacks = await Promise.all(files.map(async file => TablePacks.parse(await file.text())));
+      loadTables();
+      await generateDungeon(seed);
+    } catch (error) {
+      // Keep the tables that were already loaded, and show what was wrong with the new ones
+      userPacks = previousPacks;
+      loadTables();
+      if (tablePackStatus) {
+        tablePackStatus.className = 'text-red-500 text-sm mt-1 whitespace-pre-line';
+        tablePackStatus.textContent = error instanceof Error ? error.message : String(error);
+      }
+    }
+  });
+}
+
+// Switch rulesets, then reroll the current seed under the new rules
+if (rulesetSelect) {
+  rulesetSelect.addEventListener('change', async () => {
+    if (!Rulesets.isRulesetName(rulesetSelect.value)) return;
+
+    const previousRuleset = ruleset;
+    ruleset = rulesetSelect.value;
+
+    try {
+      loadTables();
+      await generateDungeon(seed);
+    } catch (error) {
+      // A user pack may not work with the new ruleset's ship types
+      ruleset = previousRuleset;
+      rulesetSelect.value = previousRuleset;
+      loadTables();
+      if (tablePackStatus) {
+        tablePackStatus.className = 'text-red-500 text-sm mt-1 whitespace-pre-line';
+        tablePackStatus.textContent = error instanceof Error ? error.message : String(error);
+      }
+    }
+  });
+}
 
 if (!svgElement) {
   throw new Error("SVG element with id 'dungeon-svg' not found");
@@ -532,6 +386,89 @@ if (!svgElement) {
 
 // Always use the SquareCellRenderer
 const renderer = new SquareCellRenderer(svgElement);
+const textRenderer = new TextRenderer();
+
+// Label rooms by type and number, just type or just number, on both maps
+if (roomLabelsSelect) {
+  roomLabelsSelect.addEventListener('change', () => {
+    const mode = roomLabelsSelect.value as RoomLabelMode;
+    renderer.setRoomLabels(mode);
+    textRenderer.setRoomLabels(mode);
+    generateDungeon(seed).catch(error => {
+      console.error("Error generating dungeon:", error);
+    });
+  });
+}
+
+if (copyTextMapButton) {
+  copyTextMapButton.addEventListener('click', () => {
+    if (textMapElement?.textContent) {
+      navigator.clipboard.writeText(textMapElement.textContent).catch(error => {
+        console.error("Error copying text map:", error);
+      });
+    }
+  });
+}
+
+// Redraw the current ship in black and white, or back in colour
+if (monochromeCheckbox) {
+  monochromeCheckbox.addEventListener('change', () => {
+    renderer.setMonochrome(monochromeCheckbox.checked);
+    generateDungeon(seed).catch(error => {
+      console.error("Error generating dungeon:", error);
+    });
+  });
+}
+
+// Switch the map between the referee's view and the players' view
+if (fogOfWarCheckbox) {
+  fogOfWarCheckbox.checked = localStorage.getItem(FOG_OF_WAR_ENABLED_KEY) === 'true';
+  fogOfWarCheckbox.addEventListener('change', () => {
+    localStorage.setItem(FOG_OF_WAR_ENABLED_KEY, fogOfWarCheckbox.checked.toString());
+    generateDungeon(seed).catch(error => {
+      console.error("Error generating dungeon:", error);
+    });
+  });
+}
+
+// Clicking an unknown doorway on the players' view explores it
+svgElement.addEventListener('click', (event) => {
+  const doorway = (event.target as Element).closest('.unknown-doorway');
+  if (!fogOfWar || !doorway) return;
+
+  if (fogOfWar.exploreLink(Number(doorway.getAttribute('data-link')))) {
+    renderer.refresh();
+    saveFogOfWar();
+    showShipDetails();
+    updateStepDisplay();
+  }
+});
+
+// The fonts the exported map carries: the same DejaVu Sans as the handouts, which has every glyph the map uses
+const loadExportFonts = async (): Promise<EmbeddedFont[]> => {
+  const load = async (url: string) => new Uint8Array(await (await fetch(url)).arrayBuffer());
+  return [
+    { family: 'DejaVu Sans', data: await load(dejaVuSansUrl), format: 'truetype', weight: 'normal' },
+    { family: 'DejaVu Sans', data: await load(dejaVuSansBoldUrl), format: 'truetype', weight: 'bold' }
+  ];
+};
+
+// Download the map as it is drawn, as an SVG that opens on its own
+if (exportSvgButton) {
+  exportSvgButton.addEventListener('click', async () => {
+    if (!currentSheet) return;
+
+    // Serialise the map before waiting for the fonts, so it's the one on screen when clicked
+    const sheet = currentSheet;
+    const map = new XMLSerializer().serializeToString(svgElement);
+    const markup = ShipExport.toStandaloneSvg(map, { fonts: await loadExportFonts() });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml' }));
+    link.download = `${ShipExport.getFileName(sheet.name, sheet.seed)}.svg`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(link.href), 0);
+  });
+}
 
 // Update step display
 const updateStepDisplay = () => {
@@ -549,6 +486,8 @@ generateDungeon(seed).catch(error => {
 if (nextButton) {
   nextButton.addEventListener('click', () => {
     renderer.nextStep();
+    saveFogOfWar();
+    showShipDetails();
     updateStepDisplay();
   });
 }
@@ -556,6 +495,8 @@ if (nextButton) {
 if (prevButton) {
   prevButton.addEventListener('click', () => {
     renderer.previousStep();
+    saveFogOfWar();
+    showShipDetails();
     updateStepDisplay();
   });
 }
@@ -564,6 +505,8 @@ if (lastStepButton) {
   lastStepButton.addEventListener('click', () => {
     // Keep stepping until we reach the end
     while (renderer.nextStep()) { }
+    saveFogOfWar();
+    showShipDetails();
     updateStepDisplay();
   });
 }
@@ -571,9 +514,9 @@ if (lastStepButton) {
 if (resetButton) {
   resetButton.addEventListener('click', () => {
     // Generate a new dungeon with a new seed
-    const newSeed = Date.now();
+    const newSeed = Date.now().toString();
     if (seedInput) {
-      seedInput.value = newSeed.toString();
+      seedInput.value = newSeed;
     }
     generateDungeon(newSeed);
   });
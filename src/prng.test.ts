@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { PRNG } from './prng';
+
+// Reference outputs from the published C implementation (https://prng.di.unimi.it/xoshiro128starstar.c)
+const REFERENCE_STATE: [number, number, number, number] = [1, 2, 3, 4];
+const REFERENCE_OUTPUTS = [
+  11520, 0, 5927040, 70819200, 2031721883, 1637235492, 1287239034, 3734860849, 3729100597, 4258142804
+];
+const REFERENCE_JUMPED_STATE = [2843103750, 2038079848, 1533207345, 44816753];
+const REFERENCE_JUMPED_OUTPUTS = [1194304935, 745561276, 25819468, 3320478005];
+
+const draw = (rng: PRNG, count: number) => Array.from({ length: count }, () => rng.nextUint32());
+
+describe('PRNG', () => {
+  it('matches the xoshiro128** reference sequence', () => {
+    const rng = new PRNG();
+    rng.setState(REFERENCE_STATE);
+    expect(draw(rng, REFERENCE_OUTPUTS.length)).toEqual(REFERENCE_OUTPUTS);
+  });
+
+  it('matches the reference jump', () => {
+    const rng = new PRNG();
+    rng.setState(REFERENCE_STATE);
+    rng.jump();
+    expect(rng.getState()).toEqual(REFERENCE_JUMPED_STATE);
+    expect(draw(rng, REFERENCE_JUMPED_OUTPUTS.length)).toEqual(REFERENCE_JUMPED_OUTPUTS);
+  });
+
+  it('refuses an all-zero state', () => {
+    expect(() => new PRNG().setState([0, 0, 0, 0])).toThrow();
+  });
+
+  it('gives the same stream for the same seed, numeric or string', () => {
+    expect(draw(new PRNG(1718038347), 8)).toEqual(draw(new PRNG(1718038347), 8));
+    expect(draw(new PRNG('IAGO-MARAX-7'), 8)).toEqual(draw(new PRNG('IAGO-MARAX-7'), 8));
+    expect(draw(new PRNG(1718038347), 8)).not.toEqual(draw(new PRNG(1718038348), 8));
+  });
+
+  it('forks the same sub-stream for the same seed and name', () => {
+    const first = new PRNG('IAGO-MARAX-7');
+    const second = new PRNG('IAGO-MARAX-7');
+
+    // Draws from the parent don't change its forks
+    draw(second, 100);
+
+    expect(draw(first.fork('layout'), 8)).toEqual(draw(second.fork('layout'), 8));
+    expect(draw(first.fork('layout'), 8)).not.toEqual(draw(first.fork('lore'), 8));
+    expect(draw(first.fork('layout'), 8)).not.toEqual(draw(new PRNG('IAGO-MARAX-8').fork('layout'), 8));
+  });
+});
@@ -1,58 +1,122 @@
 /**
- * A singleton implementation of the xoshiro128** algorithm for pseudo-random number generation
+ * The xoshiro128** jump polynomial, equivalent to 2^64 calls to next()
+ */
+const JUMP = [0x8764000b, 0xf542d2d3, 0x6fa035c3, 0x77f2db5b];
+
+/**
+ * An implementation of the xoshiro128** algorithm for pseudo-random number generation
+ * (Blackman & Vigna, https://prng.di.unimi.it/xoshiro128starstar.c)
+ *
+ * The 128-bit state is filled from the seed with splitmix32, so small or
+ * nearby seeds still give unrelated streams. Seeds can be numbers or
+ * strings such as "IAGO-MARAX-7".
+ *
+ * Create one generator per seed and fork named sub-streams from it for each
+ * part of the generation (layout, room types, lore tables).
  */
 export class PRNG {
-  private static instance: PRNG;
+  private seedValue: number = 0; // The 32-bit seed the state was expanded from
 
   private a: number = 0;
   private b: number = 0;
   private c: number = 0;
   private d: number = 0;
 
-  constructor(seed: number = Date.now()) {
+  constructor(seed: number | string = Date.now()) {
     this.seed(seed);
-    PRNG.instance = this;
   }
 
   /**
-   * Get the singleton instance of PRNG
-   * @param seed Optional seed value to initialize or reseed the generator
+   * Seed the random number generator
+   * @param seed The seed value to use, either a number or any string
    */
-  public static getInstance(): PRNG {
-    if (!PRNG.instance) {
-      throw new Error(
-        'PRNG instance not initialized. Create instance with seed first.'
-      );
+  public seed(seed: number | string): void {
+    this.seedValue = PRNG.hashSeed(seed);
+    this.setState(PRNG.expandSeed(this.seedValue));
+  }
+
+  /**
+   * Sets the raw 128-bit state, as four 32-bit words.
+   * Mostly useful for checking the generator against published reference values.
+   * @throws Error if every word is zero, which xoshiro can never leave
+   */
+  public setState(state: [number, number, number, number]): void {
+    if (state.every(word => (word >>> 0) === 0)) {
+      throw new Error('PRNG state cannot be all zeros');
     }
-    return PRNG.instance;
+    [this.a, this.b, this.c, this.d] = state.map(word => word >>> 0);
   }
 
   /**
-   * Seed the random number generator
-   * @param seed The seed value to use
+   * Gets the raw 128-bit state, as four 32-bit words
+   */
+  public getState(): [number, number, number, number] {
+    return [this.a, this.b, this.c, this.d];
+  }
+
+  /**
+   * Generates the next 32-bit unsigned integer
    */
-  public seed(seed: number): void {
-    this.a = seed >>> 0;
-    this.b = (seed * 31) >>> 0;
-    this.c = (seed * 37) >>> 0;
-    this.d = (seed * 41) >>> 0;
+  public nextUint32(): number {
+    const result = Math.imul(PRNG.rotl(Math.imul(this.b, 5), 7), 9) >>> 0;
+    const t = this.b << 9;
+
+    this.c ^= this.a;
+    this.d ^= this.b;
+    this.b ^= this.c;
+    this.a ^= this.d;
+    this.c ^= t;
+    this.d = PRNG.rotl(this.d, 11);
+
+    this.a >>>= 0;
+    this.b >>>= 0;
+    this.c >>>= 0;
+    this.d >>>= 0;
+
+    return result;
   }
 
   /**
    * Generates a random number between 0 and 1
    */
   public next(): number {
-    const t = this.b << 9;
-    const r = this.a * 5;
-    const result = ((r << 7) | (r >>> 25)) * 9;
-    const t2 = this.c << 11;
+    return this.nextUint32() / 4294967296;
+  }
+
+  /**
+   * Advances the generator by 2^64 steps.
+   * Repeated jumps split one seed into non-overlapping streams.
+   */
+  public jump(): void {
+    let a = 0;
+    let b = 0;
+    let c = 0;
+    let d = 0;
 
-    this.a = this.b ^ t;
-    this.b = this.c ^ t2;
-    this.c = this.d ^ (this.d >>> 19);
-    this.d = t ^ t2 ^ (this.a << 4);
+    for (const word of JUMP) {
+      for (let bit = 0; bit < 32; bit++) {
+        if (word & (1 << bit)) {
+          a ^= this.a;
+          b ^= this.b;
+          c ^= this.c;
+          d ^= this.d;
+        }
+        this.nextUint32();
+      }
+    }
+
+    this.setState([a, b, c, d]);
+  }
 
-    return (result >>> 0) / 4294967296;
+  /**
+   * Creates an independent generator for a named sub-stream.
+   * The fork depends only on this generator's seed and the name, not on how
+   * many numbers have already been drawn, so each stream stays the same when
+   * rolls are added to or removed from the others.
+   * @param name The name of the sub-stream (e.g. "layout")
+   */
+  public fork(name: string): PRNG {
+    return new PRNG(`${this.seedValue}:${name}`);
   }
 
   /**
@@ -61,4 +125,51 @@ export class PRNG {
   public nextInt(min: number, max: number): number {
     return Math.floor(this.next() * (max - min + 1)) + min;
   }
+
+  /**
+   * Reduces a seed to 32 bits.
+   * Strings are hashed, and numbers wider than 32 bits (such as Date.now())
+   * have their high bits folded into the low ones.
+   */
+  private static hashSeed(seed: number | string): number {
+    if (typeof seed === 'string') {
+      // FNV-1a, finished with the splitmix32 mixer to spread similar strings apart
+      let hash = 2166136261;
+      for (let i = 0; i < seed.length; i++) {
+        hash = Math.imul(hash ^ seed.charCodeAt(i), 16777619);
+      }
+      return PRNG.mix32(hash);
+    }
+
+    const low = seed >>> 0;
+    const high = Math.floor(seed / 4294967296) >>> 0;
+    return (low ^ PRNG.mix32(high)) >>> 0;
+  }
+
+  /**
+   * Expands a 32-bit seed into a full state with splitmix32
+   */
+  private static expandSeed(seed: number): [number, number, number, number] {
+    let state = seed >>> 0;
+    const next = () => {
+      state = (state + 0x9e3779b9) >>> 0;
+      return PRNG.mix32(state);
+    };
+
+    return [next(), next(), next(), next()];
+  }
+
+  /**
+   * The splitmix32 output function
+   */
+  private static mix32(value: number): number {
+    let z = value >>> 0;
+    z = Math.imul(z ^ (z >>> 16), 0x21f0aaad);
+    z = Math.imul(z ^ (z >>> 15), 0x735a2d97);
+    return (z ^ (z >>> 15)) >>> 0;
+  }
+
+  private static rotl(value: number, shift: number): number {
+    return (value << shift) | (value >>> (32 - shift));
+  }
 }
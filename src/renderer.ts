@@ -2,6 +2,10 @@ import * as d3 from 'd3';
 import type { DungeonGraph, RoomNode, RoomLink } from './types';
 import { AStarGrid, type GridCell } from './AStarGrid';
 import { DUNGEON_CONSTANTS } from './constants';
+import { HeadlessRenderer } from './headlessRenderer';
+import { SVG_NAMESPACE, type SvgElement, type SvgNode } from './svgTree';
+import type { RoomLabelMode } from './roomStyles';
+import type { FogOfWar } from './fogOfWar';
 
 // Define Point type for path coordinates
 type Point = [number, number];
@@ -335,11 +339,12 @@ export class DungeonRenderer {
     // Add one cell margin on each side (left, right, top, bottom)
     const margin = cellSize;
 
-    // Canvas width is exactly 11 cells + 2 cells for margins
-    const canvasWidth = 11 * cellSize + (margin * 2);
+    // Canvas width is the ship width in cells + 2 cells for margins
+    const shipWidth = graph.width ?? DUNGEON_CONSTANTS.SHIP_WIDTH;
+    const canvasWidth = shipWidth * cellSize + (margin * 2);
 
-    // Canvas height is based on the room positions plus margin cells
-    const numberOfRows = Math.ceil(yExtent[1] / cellSize) + 1;
+    // Canvas height is based on the deck count (or the room positions) plus margin cells
+    const numberOfRows = graph.height ?? Math.ceil(yExtent[1] / cellSize) + 1;
     const canvasHeight = numberOfRows * cellSize + (margin * 2);
 
     // Set SVG dimensions
@@ -1057,312 +1062,150 @@ export class DungeonRenderer {
 }
 
 /**
- * SquareCellRenderer - Renders dungeon rooms as squares with borders
- * instead of circular nodes with connectors.
+ * Draws ships into a live SVG element in the browser
+ * The drawing itself comes from HeadlessRenderer; this mirrors its SVG tree into the page,
+ * adding only the links that are new as the steps are revealed.
  */
 export class SquareCellRenderer {
-  private svg: d3.Selection<SVGSVGElement, unknown, null, undefined>;
-  private graph: DungeonGraph | null = null;
-  private navigationData: NavigationGridData | null = null;
-  private currentStep: number = -1;
-  private linkGroup: d3.Selection<SVGGElement, unknown, null, undefined> | null = null;
-  private renderSecondaryConnections: boolean = false;
+  private svg: SVGSVGElement;
+  private drawing: HeadlessRenderer = new HeadlessRenderer();
+  private linkGroup: SVGGElement | null = null;
+  private mountedTree: SvgElement | null = null;
 
   constructor(svgElement: SVGSVGElement) {
-    this.svg = d3.select(svgElement);
+    this.svg = svgElement;
   }
 
-  private getCellSize(): number {
-    return DUNGEON_CONSTANTS.CELL_SIZE;
-  }
+  /**
+   * Creates the DOM for a node in the drawing and adds it to a parent
+   */
+  private mount(parent: Element, node: SvgNode): Element | null {
+    const document = parent.ownerDocument;
 
-  private getNavigationData(): NavigationGridData {
-    if (!this.navigationData) {
-      throw new Error('Navigation data not initialized');
+    if (typeof node === 'string') {
+      parent.appendChild(document.createTextNode(node));
+      return null;
     }
-    return this.navigationData;
-  }
-
-  private calculateOffsets(graph: DungeonGraph) {
-    // Get the extents of the rooms to determine height
-    const yExtent = d3.extent(graph.rooms, (d) => d.y) as [number, number];
-
-    // The cell size from constants
-    const cellSize = this.getCellSize();
-
-    // Add one cell margin on each side (left, right, top, bottom)
-    const margin = cellSize;
-
-    // Canvas width is exactly 11 cells + 2 cells for margins
-    const canvasWidth = 11 * cellSize + (margin * 2);
-
-    // Canvas height is based on the room positions plus margin cells
-    const numberOfRows = Math.ceil(yExtent[1] / cellSize) + 1;
-    const canvasHeight = numberOfRows * cellSize + (margin * 2);
 
-    // Set SVG dimensions
-    this.svg
-      .attr('width', canvasWidth)
-      .attr('height', canvasHeight);
+    const element = document.createElementNS(SVG_NAMESPACE, node.tag);
+    for (const [name, value] of Object.entries(node.attributes)) {
+      element.setAttribute(name, String(value));
+    }
+    node.children.forEach((child) => this.mount(element, child));
 
-    // Position the grid starting at the margin position (cellSize, cellSize)
-    return {
-      x: margin,
-      y: margin
-    };
+    parent.appendChild(element);
+    return element;
   }
 
-  private renderRooms(
-    graph: DungeonGraph,
-    offsetX: number,
-    offsetY: number
-  ) {
-    const cellSize = this.getCellSize();
-
-    // Draw rooms as squares that fill cells
-    const nodes = this.svg
-      .append('g')
-      .selectAll<SVGRectElement, RoomNode>('rect')
-      .data(graph.rooms)
-      .enter()
-      .append('rect')
-      .attr('width', cellSize)
-      .attr('height', cellSize)
-      .attr('x', (d) => Math.floor(d.x / cellSize) * cellSize + offsetX)  // Add offsetX
-      .attr('y', (d) => Math.floor(d.y / cellSize) * cellSize + offsetY)  // Add offsetY
-      .attr('fill', 'white')
-      .attr('stroke', 'black')
-      .attr('stroke-width', 2);
-
-    // Add room numbers
-    this.svg
-      .append('g')
-      .selectAll<SVGTextElement, RoomNode>('text')
-      .data(graph.rooms)
-      .enter()
-      .append('text')
-      .attr('x', (d) => Math.floor(d.x / cellSize) * cellSize + cellSize / 2 + offsetX)  // Add offsetX
-      .attr('y', (d) => Math.floor(d.y / cellSize) * cellSize + cellSize / 2 + offsetY)  // Add offsetY
-      .attr('text-anchor', 'middle')
-      .attr('dominant-baseline', 'central')
-      .attr('font-size', '16px')
-      .attr('font-weight', 'bold')
-      .text((d) => d.id);
+  /**
+   * Brings the page's links up to date with the drawing's
+   */
+  private syncLinks() {
+    const linkGroup = this.drawing.getLinkGroup();
+    if (!this.linkGroup || !linkGroup) return;
 
-    // Add tooltips
-    nodes.append('title').text((d: RoomNode) => `${d.name} (${d.id})`);
+    // Stepping back removes links, so start again; stepping forward only adds them
+    if (this.linkGroup.childNodes.length > linkGroup.children.length) {
+      d3.select(this.linkGroup).selectAll('*').remove();
+    }
+    linkGroup.children
+      .slice(this.linkGroup.childNodes.length)
+      .forEach((child) => this.mount(this.linkGroup!, child));
   }
 
-  private calculateLinkEndpoint(
-    source: RoomNode,
-    target: RoomNode,
-    offsetX: number,
-    offsetY: number
-  ) {
-    // Calculate direction vector
-    const dx = target.x - source.x;
-    const dy = target.y - source.y;
-
-    // Get the cell size
-    const cellSize = this.getCellSize();
-
-    // Get grid positions
-    const sourceGridX = Math.floor(source.x / cellSize);
-    const sourceGridY = Math.floor(source.y / cellSize);
-
-    // Calculate center of the cell
-    const centerX = sourceGridX * cellSize + cellSize / 2;
-    const centerY = sourceGridY * cellSize + cellSize / 2;
-
-    // Determine exit point on the square (at the edge of the cell)
-    let exitX, exitY;
-
-    if (Math.abs(dx) > Math.abs(dy)) {
-      // Horizontal dominant direction
-      exitX = sourceGridX * cellSize + (dx > 0 ? cellSize : 0);
-      exitY = centerY;
+  /**
+   * Brings the page up to date with the drawing: just its links, unless it was drawn again
+   */
+  private sync() {
+    if (this.drawing.getTree() !== this.mountedTree) {
+      this.mountTree();
     } else {
-      // Vertical dominant direction
-      exitX = centerX;
-      exitY = sourceGridY * cellSize + (dy > 0 ? cellSize : 0);
+      this.syncLinks();
     }
-
-    return {
-      x: exitX + offsetX,  // Add offsetX
-      y: exitY + offsetY   // Add offsetY
-    };
-  }
-
-  private renderLinks(
-    graph: DungeonGraph,
-    offsetX: number,
-    offsetY: number,
-    navigationData: NavigationGridData
-  ) {
-    const linkGroup = this.svg.append('g');
-
-    // Divide links by type
-    const primaryLinks = graph.links.filter((l) => l.type === 'door');
-    const secondaryLinks = this.renderSecondaryConnections
-      ? graph.links.filter((l) => l.type === 'secondary')
-      : [];
-
-    // Function to create path
-    const createPath = (d: RoomLink) => {
-      const start = this.calculateLinkEndpoint(d.source, d.target, offsetX, offsetY);
-      const end = this.calculateLinkEndpoint(d.target, d.source, offsetX, offsetY);
-
-      return `M ${start.x} ${start.y} L ${end.x} ${end.y}`;
-    };
-
-    // Render primary links
-    linkGroup
-      .selectAll<SVGPathElement, RoomLink>('path.primary')
-      .data(primaryLinks)
-      .enter()
-      .append('path')
-      .attr('class', 'primary')
-      .attr('stroke', 'black')
-      .attr('stroke-width', 2)
-      .attr('fill', 'none')
-      .attr('d', createPath);
-
-    // Render secondary links
-    linkGroup
-      .selectAll<SVGPathElement, RoomLink>('path.secondary')
-      .data(secondaryLinks)
-      .enter()
-      .append('path')
-      .attr('class', 'secondary')
-      .attr('stroke', 'red')
-      .attr('stroke-width', 1)
-      .attr('fill', 'none')
-      .attr('stroke-dasharray', '4,4')
-      .attr('d', createPath);
-
-    return linkGroup;
   }
 
-  private renderStep() {
-    if (!this.graph || !this.navigationData || !this.linkGroup) return;
-
-    const { x: offsetX, y: offsetY } = this.calculateOffsets(this.graph);
-    const allLinks = [...this.graph.links];
-    const currentLink = allLinks[this.currentStep];
-
-    if (!currentLink) return;
-
-    // Skip secondary connections if disabled
-    if (currentLink.type === 'secondary' && !this.renderSecondaryConnections) {
-      return;
-    }
-
-    // Function to create path
-    const createPath = (d: RoomLink) => {
-      const start = this.calculateLinkEndpoint(d.source, d.target, offsetX, offsetY);
-      const end = this.calculateLinkEndpoint(d.target, d.source, offsetX, offsetY);
-
-      return `M ${start.x} ${start.y} L ${end.x} ${end.y}`;
-    };
+  /**
+   * Replaces everything in the page's SVG element with the drawing
+   */
+  private mountTree() {
+    d3.select(this.svg).selectAll('*').remove();
 
-    // Render the current link
-    this.linkGroup
-      .append('path')
-      .attr('class', currentLink.type)
-      .attr('stroke', currentLink.type === 'door' ? 'black' : 'red')
-      .attr('stroke-width', currentLink.type === 'door' ? 2 : 1)
-      .attr('fill', 'none')
-      .attr('stroke-dasharray', currentLink.type === 'secondary' ? '4,4' : 'none')
-      .attr('d', createPath(currentLink));
+    // Set SVG dimensions
+    const tree = this.drawing.getTree();
+    this.svg.setAttribute('width', String(tree.attributes.width));
+    this.svg.setAttribute('height', String(tree.attributes.height));
+
+    // The link group is the last part of the drawing, and starts empty
+    const elements = tree.children.map((child) => this.mount(this.svg, child));
+    this.linkGroup = elements[elements.length - 1] as SVGGElement;
+    this.mountedTree = tree;
   }
 
   public initializeRender(graph: DungeonGraph, navigationData: NavigationGridData): void {
-    this.navigationData = navigationData;
-    this.svg.selectAll('*').remove();
-    this.graph = graph;
-    this.currentStep = -1;
-
-    const { x: offsetX, y: offsetY } = this.calculateOffsets(graph);
-
-    // Render rooms
-    this.renderRooms(graph, offsetX, offsetY);
-
-    // Create empty link group for step-by-step rendering
-    this.linkGroup = this.svg.append('g');
+    this.drawing.initializeRender(graph, navigationData);
+    this.mountTree();
   }
 
   public nextStep(): boolean {
-    if (!this.graph || this.currentStep >= this.graph.links.length - 1) {
-      return false;
-    }
-
-    this.currentStep++;
-
-    // Skip secondary connections if disabled
-    if (
-      this.renderSecondaryConnections === false &&
-      this.graph.links[this.currentStep].type === 'secondary'
-    ) {
-      return this.nextStep();
-    }
-
-    this.renderStep();
-    return true;
+    const advanced = this.drawing.nextStep();
+    this.sync();
+    return advanced;
   }
 
   public previousStep(): boolean {
-    if (!this.graph || this.currentStep <= 0) {
-      return false;
-    }
-
-    // Remove the current step's rendering
-    if (this.linkGroup) {
-      this.linkGroup.selectAll('*').remove();
-    }
-
-    this.currentStep--;
+    const retreated = this.drawing.previousStep();
+    this.sync();
+    return retreated;
+  }
 
-    // Skip secondary connections if disabled
-    if (
-      this.renderSecondaryConnections === false &&
-      this.graph.links[this.currentStep].type === 'secondary'
-    ) {
-      return this.previousStep();
-    }
+  public getCurrentStep(): number {
+    return this.drawing.getCurrentStep();
+  }
 
-    // Re-render all steps up to the current one
-    for (let i = 0; i <= this.currentStep; i++) {
-      this.currentStep = i;
-      this.renderStep();
-    }
+  public getTotalSteps(): number {
+    return this.drawing.getTotalSteps();
+  }
 
-    return true;
+  public setRenderSecondaryConnections(render: boolean): void {
+    this.drawing.setRenderSecondaryConnections(render);
   }
 
-  public getCurrentStep(): number {
-    return this.currentStep;
+  /**
+   * Fills rooms with black and white patterns instead of colours, for printing.
+   * Takes effect on the next render.
+   */
+  public setMonochrome(monochrome: boolean): void {
+    this.drawing.setMonochrome(monochrome);
   }
 
-  public getTotalSteps(): number {
-    if (!this.graph) return 0;
+  /**
+   * Chooses what room labels show: type and number (the default), just the type, or just the number.
+   * Takes effect on the next render.
+   */
+  public setRoomLabels(mode: RoomLabelMode): void {
+    this.drawing.setRoomLabels(mode);
+  }
 
-    if (this.renderSecondaryConnections) {
-      return this.graph.links.length;
-    } else {
-      return this.graph.links.filter(link => link.type !== 'secondary').length;
-    }
+  /**
+   * Draws the ship as the players see it, hiding rooms until they are revealed,
+   * or as a whole again when given null. Each step is then a reveal.
+   * Takes effect on the next render.
+   */
+  public setFogOfWar(fog: FogOfWar | null): void {
+    this.drawing.setFogOfWar(fog);
   }
 
-  public setRenderSecondaryConnections(render: boolean): void {
-    this.renderSecondaryConnections = render;
+  /**
+   * Redraws the players' view, after the fog of war was changed other than by stepping
+   */
+  public refresh(): void {
+    this.drawing.refresh();
+    this.sync();
   }
 
   render(graph: DungeonGraph, navigationData: NavigationGridData): void {
-    // Initialize the render
-    this.initializeRender(graph, navigationData);
-
-    // Render all steps at once
-    while (this.nextStep()) { }
+    this.drawing.render(graph, navigationData);
+    this.mountTree();
   }
 
   renderDebug(graph: DungeonGraph, navigationData: NavigationGridData): void {
@@ -0,0 +1,86 @@
+/**
+ * The kinds of roll recorded in a roll log
+ * - roll: plain dice, such as a d6 picking a room position
+ * - expression: a dice expression, such as the "3d6" deck count or "4D10" in an outcome
+ * - table: a roll on an outcome table, along with the entry it selected
+ */
+export type RollEventKind = 'roll' | 'expression' | 'table';
+
+/**
+ * A single recorded roll
+ */
+export interface RollEvent {
+  sequence: number;    // Position in the log, starting at 0
+  stream?: string;     // The dice stream the roll came from (e.g. "layout")
+  context: string[];   // What the roll was for, outermost first (e.g. ["deck 2", "room count"])
+  kind: RollEventKind;
+  notation: string;    // e.g. "1d6", "3d6+2" or "1d100 (0-99)" for a 0-indexed d100
+  rolls: number[];     // The raw value of every die rolled
+  total: number;
+  breakdown?: string;  // For expressions, how the total was reached
+  table?: string;      // For table rolls, the name of the table (if it has one)
+  outcome?: string;    // For table rolls, the entry that was selected
+}
+
+/**
+ * A record of every dice roll made while generating a ship
+ * Dice created with a log record each roll in it, tagged with the current context.
+ * Callers describe what they are rolling for by wrapping rolls in within():
+ *
+ * const log = new RollLog();
+ * const dice = new Dice(rng.fork('layout'), log, 'layout');
+ * const decks = log.within('deck count', () => dice.rollFromNotation('3d6').total);
+ * log.getEvents(); // [{ context: ['deck count'], notation: '3d6', rolls: [2, 6, 3], total: 11, ... }]
+ */
+export class RollLog {
+  private events: RollEvent[] = [];
+  private contextStack: string[] = [];
+
+  /**
+   * Records a roll under the current context
+   */
+  public record(event: Omit<RollEvent, 'sequence' | 'context'>): void {
+    this.events.push({
+      ...event,
+      sequence: this.events.length,
+      context: [...this.contextStack]
+    });
+  }
+
+  /**
+   * Runs a function with an extra context entry, so every roll it makes is tagged with it
+   * @param context What the rolls are for (e.g. "room type for room 7")
+   * @returns Whatever the function returns
+   */
+  public within<T>(context: string, fn: () => T): T {
+    this.contextStack.push(context);
+    try {
+      return fn();
+    } finally {
+      this.contextStack.pop();
+    }
+  }
+
+  /**
+   * Gets a copy of every roll recorded so far, in the order they were made
+   */
+  public getEvents(): RollEvent[] {
+    return this.events.map(event => ({ ...event, context: [...event.context], rolls: [...event.rolls] }));
+  }
+
+  public clear(): void {
+    this.events = [];
+    this.contextStack = [];
+  }
+
+  /**
+   * Formats a roll as a single line
+   * e.g. "deck count: 3d6 [2, 6, 3] = 11" or "cargo: 1d100 (0-99) [79] = 79 → 7 Containers of Random Cargo"
+   */
+  public static describe(event: RollEvent): string {
+    const context = [...event.context, ...(event.table ? [event.table] : [])].join(' › ');
+    const roll = event.breakdown ?? `${event.notation} [${event.rolls.join(', ')}] = ${event.total}`;
+    const outcome = event.outcome !== undefined ? ` → ${event.outcome}` : '';
+    return `${context ? `${context}: ` : ''}${roll}${outcome}`;
+  }
+}
@@ -1,5 +1,6 @@
 import { RoomType } from './types';
 import { Dice } from './dice';
+import { RoomConstraints, type ConstraintViolation, type RoomTypeConstraint } from './roomConstraints';
 
 /**
  * Defines the distribution of room types for each ship type
@@ -25,6 +26,22 @@ export interface RoomTypeDistribution {
     [RoomType.WEAPON]: number;
 }
 
+/**
+ * The room types picked for a ship, and the constraints they could not meet
+ */
+export interface RoomTypeAssignment {
+    roomTypes: RoomType[];
+    violations: ConstraintViolation[];
+}
+
+// Random picks per room before falling back to the most likely type below its maximum
+const MAX_ROLLS_PER_ROOM = 20;
+
+/**
+ * The distribution used for ship types without one of their own
+ */
+export const DEFAULT_DISTRIBUTION = "Default";
+
 /**
  * Room type distributions per ship type
  * Values represent weighted probabilities (higher = more likely)
@@ -192,8 +209,8 @@ export const ROOM_DISTRIBUTIONS: Record<string, RoomTypeDistribution> = {
         [RoomType.THRUSTERS]: 2,
         [RoomType.WEAPON]: 2
     },
-    // Default fallback for any unrecognized ship type
-    "Default": {
+    // Default fallback for any unrecognized ship type (e.g. one added by a table pack)
+    [DEFAULT_DISTRIBUTION]: {
         [RoomType.BARRACKS]: 3,
         [RoomType.CARGO_HOLD]: 3,
         [RoomType.COMMAND]: 3,
@@ -217,17 +234,89 @@ export const ROOM_DISTRIBUTIONS: Record<string, RoomTypeDistribution> = {
  * Utility class for assigning room types to ships
  */
 export class RoomAssigner {
+    /**
+     * Checks a set of room distributions
+     * Every distribution needs a whole, non-negative weight for each room type and
+     * at least one non-zero weight, and there must be a default distribution.
+     * Ship type names are matched ignoring case and spacing, so two keys that differ
+     * only by those count as duplicates (exact duplicates are caught by the type checker).
+     *
+     * @param distributions The distributions to check, keyed by ship type
+     * @param shipTypeNames The known ship types. When given, every ship type must have
+     *                      a distribution and every distribution must be for one of them.
+     * @returns A description of each problem found (empty if the distributions are valid)
+     */
+    static validateDistributions(distributions: Record<string, RoomTypeDistribution>, shipTypeNames?: string[]): string[] {
+        const errors: string[] = [];
+        const roomTypes = Object.values(RoomType);
+        const normalize = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+        if (!distributions[DEFAULT_DISTRIBUTION]) {
+            errors.push(`No "${DEFAULT_DISTRIBUTION}" distribution for unrecognized ship types`);
+        }
+
+        const seen = new Map<string, string>();
+        for (const [shipType, distribution] of Object.entries(distributions)) {
+            const previous = seen.get(normalize(shipType));
+            if (previous !== undefined) {
+                errors.push(`"${shipType}" duplicates "${previous}"`);
+            }
+            seen.set(normalize(shipType), shipType);
+
+            if (shipTypeNames && shipType !== DEFAULT_DISTRIBUTION && !shipTypeNames.includes(shipType)) {
+                errors.push(`"${shipType}" is not a known ship type`);
+            }
+
+            for (const roomType of Object.keys(distribution)) {
+                if (!roomTypes.includes(roomType as RoomType)) {
+                    errors.push(`"${shipType}": unknown room type "${roomType}"`);
+                }
+            }
+            for (const roomType of roomTypes) {
+                const weight = distribution[roomType];
+                if (!Number.isInteger(weight) || weight < 0) {
+                    errors.push(`"${shipType}": ${roomType} needs a whole number weight of 0 or more`);
+                }
+            }
+            if (roomTypes.every(roomType => !(distribution[roomType] > 0))) {
+                errors.push(`"${shipType}": needs at least one room type with a weight above 0`);
+            }
+        }
+
+        for (const shipType of shipTypeNames ?? []) {
+            if (!distributions[shipType]) {
+                errors.push(`"${shipType}" has no room distribution`);
+            }
+        }
+
+        return errors;
+    }
+
+    /**
+     * Checks ROOM_DISTRIBUTIONS against the ship types in use
+     * @throws Error listing every problem found
+     */
+    static checkDistributions(shipTypeNames?: string[]): void {
+        const errors = this.validateDistributions(ROOM_DISTRIBUTIONS, shipTypeNames);
+        if (errors.length > 0) {
+            throw new Error(`Invalid room distributions:\n${errors.map(error => `- ${error}`).join('\n')}`);
+        }
+    }
+
     /**
      * Assigns a room type based on the ship type using weighted probabilities
      * @param shipType The type of ship
+     * @param dice The dice to roll with
      * @returns A randomly selected room type based on the ship's typical distribution
      */
-    static getRandomRoomType(shipType: string): RoomType {
+    static getRandomRoomType(shipType: string, dice: Dice): RoomType {
 
         // Get the room distribution for this ship type, or use default if not found
-        const distribution = ROOM_DISTRIBUTIONS[shipType] || ROOM_DISTRIBUTIONS["Default"];
+        const distribution = ROOM_DISTRIBUTIONS[shipType] ?? ROOM_DISTRIBUTIONS[DEFAULT_DISTRIBUTION];
 
-        // Convert the distribution to an outcome table format
+        // Convert the distribution to an outcome table format: each room type
+        // starts where the previous one's weight ends, so a 0-indexed roll of
+        // the total weight gives every room type exactly its weight in chances
         const outcomes: Record<number, RoomType> = {};
         let cumulativeWeight = 0;
 
@@ -239,66 +328,77 @@ export class RoomAssigner {
             }
         }
 
-        // Roll a random number between 0 and the total weight
-        const roll = Dice.roll(cumulativeWeight, 1).total;
-
-        // Find the corresponding room type for this roll
-        let selectedType = RoomType.CARGO_HOLD; // Default fallback
-        for (let i = cumulativeWeight - 1; i >= 0; i--) {
-            if (outcomes[i] !== undefined && roll >= i) {
-                selectedType = outcomes[i];
-                break;
-            }
-        }
-
-        return selectedType;
+        return dice.rollWithOutcome(Dice.createOutcomeTable(cumulativeWeight, 1, outcomes));
     }
 
     /**
      * Gets a list of room types for a given ship based on the number of rooms needed
+     * The list meets the ship type's constraints where it can: the rooms the ship must
+     * have come first, then weighted random picks that stay within each type's maximum
+     * and bring along any types they require.
      * @param shipType The type of ship
      * @param roomCount The number of rooms to generate
-     * @param guaranteedRooms Room types that must be included (e.g., COMMAND, ENGINE)
-     * @returns An array of room types
+     * @param dice The dice to roll with
+     * @param constraints The constraints to meet (defaults to the ship type's)
+     * @returns The room types, and any constraints they could not meet (e.g. too few rooms for every required one)
      */
     static assignRoomTypesForShip(
         shipType: string,
         roomCount: number,
-        guaranteedRooms: RoomType[] = [
-            RoomType.COMMAND,
-            RoomType.ENGINE,
-            RoomType.LIFE_SUPPORT
-        ]
-    ): RoomType[] {
+        dice: Dice,
+        constraints: RoomTypeConstraint[] = RoomConstraints.forShipType(shipType)
+    ): RoomTypeAssignment {
 
-        const roomTypes: RoomType[] = [];
+        // First add the rooms the ship must have, as many as fit
+        const roomTypes: RoomType[] = RoomConstraints.getRequiredRoomTypes(constraints).slice(0, Math.max(0, roomCount));
 
-        // First add all guaranteed rooms
-        for (const roomType of guaranteedRooms) {
-            if (roomTypes.length < roomCount) {
-                roomTypes.push(roomType);
+        // Then fill the rest with weighted random selections
+        let rolls = 0;
+        while (roomTypes.length < roomCount) {
+            // Every type left may be at its maximum, so stop rolling eventually
+            if (rolls++ >= roomCount * MAX_ROLLS_PER_ROOM) {
+                roomTypes.push(this.getFallbackRoomType(shipType, roomTypes, constraints));
+                continue;
             }
-        }
 
-        // Define room types that should be unique (only appear once)
-        const uniqueRoomTypes = [
-            RoomType.COMMAND,
-            RoomType.JUMP_DRIVE,
-            RoomType.ENGINE // You can customize this list based on your preferences
-        ];
+            const newType = dice.within(`room type for room ${roomTypes.length + 1}`, () =>
+                this.getRandomRoomType(shipType, dice)
+            );
 
-        // Then fill the rest with weighted random selections
-        while (roomTypes.length < roomCount) {
-            const newType = this.getRandomRoomType(shipType);
+            // Skip this room type if the ship already has as many as it can
+            if (RoomConstraints.isAtMaximum(newType, roomTypes, constraints)) {
+                continue;
+            }
 
-            // Skip this room type if it's supposed to be unique and already exists
-            if (uniqueRoomTypes.includes(newType) && roomTypes.includes(newType)) {
+            // Skip it if there isn't room for the types it requires as well
+            const missing = RoomConstraints.getMissingRequirements(newType, roomTypes, constraints);
+            if (roomTypes.length + 1 + missing.length > roomCount) {
                 continue;
             }
 
-            roomTypes.push(newType);
+            roomTypes.push(newType, ...missing);
         }
 
-        return roomTypes;
+        return {
+            roomTypes,
+            violations: RoomConstraints.findCountViolations(roomTypes, constraints)
+        };
+    }
+
+    /**
+     * Picks a room type when random rolls keep landing on types at their maximum:
+     * the most likely type that is still below it, or the most likely type overall
+     */
+    private static getFallbackRoomType(shipType: string, roomTypes: RoomType[], constraints: RoomTypeConstraint[]): RoomType {
+        const distribution = ROOM_DISTRIBUTIONS[shipType] ?? ROOM_DISTRIBUTIONS[DEFAULT_DISTRIBUTION];
+        const byWeight = (Object.entries(distribution) as Array<[RoomType, number]>)
+            .filter(([, weight]) => weight > 0)
+            .sort((a, b) => b[1] - a[1])
+            .map(([roomType]) => roomType);
+
+        return byWeight.find(roomType => !RoomConstraints.isAtMaximum(roomType, roomTypes, constraints)) ?? byWeight[0];
     }
-} 
\ No newline at end of file
+}
+
+// Catch mistakes in the distributions above as soon as the module loads
+RoomAssigner.checkDistributions();
@@ -0,0 +1,282 @@
+import { RoomType } from './types';
+
+/**
+ * A deck a room type must be placed on
+ */
+export type DeckRequirement = 'top' | 'bottom';
+
+/**
+ * A hard rule about one room type on a ship
+ * "Exactly one" is min: 1 and max: 1.
+ */
+export interface RoomTypeConstraint {
+    roomType: RoomType;
+    min?: number;            // The ship must have at least this many
+    max?: number;            // The ship must have no more than this many
+    requires?: RoomType[];   // If the ship has this room type, it must also have each of these
+    deck?: DeckRequirement;  // Every room of this type must be on the top or bottom deck
+}
+
+/**
+ * A way an assignment breaks a constraint
+ * - min/max: too few or too many rooms of the type (e.g. the ship has fewer rooms than it must have)
+ * - requires: the type is on the ship without a type it requires
+ * - deck: a room of the type is off the deck it must be on
+ */
+export interface ConstraintViolation {
+    kind: 'min' | 'max' | 'requires' | 'deck';
+    roomType: RoomType;
+    message: string;
+    roomId?: number; // For deck violations, the room that is on the wrong deck
+}
+
+/**
+ * Constraints for every ship type
+ * These replace the old guaranteed rooms (COMMAND, ENGINE, LIFE_SUPPORT) and
+ * unique rooms (COMMAND, JUMP_DRIVE, ENGINE).
+ */
+export const DEFAULT_ROOM_CONSTRAINTS: RoomTypeConstraint[] = [
+    { roomType: RoomType.COMMAND, min: 1, max: 1, deck: 'top' },
+    { roomType: RoomType.ENGINE, min: 1, max: 1, deck: 'bottom' },
+    { roomType: RoomType.LIFE_SUPPORT, min: 1 },
+    { roomType: RoomType.JUMP_DRIVE, max: 1, requires: [RoomType.ENGINE] }
+];
+
+/**
+ * Ship-specific constraints
+ * These are combined with the defaults: a constraint for a room type that already
+ * has a default one overrides the fields it sets.
+ */
+export const SHIP_SPECIFIC_CONSTRAINTS: Record<string, RoomTypeConstraint[]> = {
+    "Freighter": [
+        { roomType: RoomType.CARGO_HOLD, min: 2 }
+    ],
+    "Raider": [
+        { roomType: RoomType.WEAPON, min: 1 }
+    ],
+    "Exploration Vessel": [
+        { roomType: RoomType.SCIENCE_LAB, min: 1, requires: [RoomType.COMPUTER] }
+    ],
+    "Troopship": [
+        { roomType: RoomType.BARRACKS, min: 2 },
+        { roomType: RoomType.MEDBAY, min: 1 }
+    ],
+    "Colony Ship": [
+        { roomType: RoomType.HABITAT_AREA, min: 1 },
+        { roomType: RoomType.CRYOCHAMBER, requires: [RoomType.MEDBAY] }
+    ]
+};
+
+/**
+ * Utility class for room type constraints
+ */
+export class RoomConstraints {
+    /**
+     * Gets the constraints for a ship type: the defaults, combined with any ship-specific ones
+     */
+    static forShipType(shipType: string): RoomTypeConstraint[] {
+        const constraints = DEFAULT_ROOM_CONSTRAINTS.map(constraint => ({ ...constraint }));
+
+        for (const override of SHIP_SPECIFIC_CONSTRAINTS[shipType] || []) {
+            const index = constraints.findIndex(constraint => constraint.roomType === override.roomType);
+            if (index !== -1) {
+                constraints[index] = { ...constraints[index], ...override };
+            } else {
+                constraints.push({ ...override });
+            }
+        }
+
+        return constraints;
+    }
+
+    /**
+     * Lists the room types a ship must have, in constraint order: each type's
+     * minimum count, plus one of every type those require
+     * e.g. [COMMAND, ENGINE, LIFE_SUPPORT, BARRACKS, BARRACKS, MEDBAY] for a Troopship
+     */
+    static getRequiredRoomTypes(constraints: RoomTypeConstraint[]): RoomType[] {
+        const roomTypes: RoomType[] = [];
+
+        for (const constraint of constraints) {
+            for (let i = 0; i < (constraint.min ?? 0); i++) {
+                roomTypes.push(constraint.roomType);
+            }
+        }
+        for (const roomType of [...roomTypes]) {
+            for (const required of this.getMissingRequirements(roomType, roomTypes, constraints)) {
+                roomTypes.push(required);
+            }
+        }
+
+        return roomTypes;
+    }
+
+    /**
+     * Gets the room types a room type requires that aren't in the list yet,
+     * following requirements of requirements
+     */
+    static getMissingRequirements(roomType: RoomType, roomTypes: RoomType[], constraints: RoomTypeConstraint[]): RoomType[] {
+        const missing: RoomType[] = [];
+        const visit = (type: RoomType) => {
+            const constraint = constraints.find(c => c.roomType === type);
+            for (const required of constraint?.requires ?? []) {
+                if (!roomTypes.includes(required) && !missing.includes(required) && required !== roomType) {
+                    missing.push(required);
+                    visit(required);
+                }
+            }
+        };
+        visit(roomType);
+        return missing;
+    }
+
+    /**
+     * Checks whether another room of a type would go over its maximum
+     */
+    static isAtMaximum(roomType: RoomType, roomTypes: RoomType[], constraints: RoomTypeConstraint[]): boolean {
+        const max = constraints.find(constraint => constraint.roomType === roomType)?.max;
+        return max !== undefined && roomTypes.filter(type => type === roomType).length >= max;
+    }
+
+    /**
+     * Gets the deck a room type must be on, if it has to be on one
+     * @param topDeck The index of the ship's top deck
+     * @param bottomDeck The index of the ship's bottom deck
+     */
+    static getRequiredDeck(roomType: RoomType, constraints: RoomTypeConstraint[], topDeck: number, bottomDeck: number): number | undefined {
+        const deck = constraints.find(constraint => constraint.roomType === roomType)?.deck;
+        return deck === 'top' ? topDeck : deck === 'bottom' ? bottomDeck : undefined;
+    }
+
+    /**
+     * Checks a list of room types against the count and requirement constraints
+     * @returns Every constraint the list breaks (empty if it meets them all)
+     */
+    static findCountViolations(roomTypes: RoomType[], constraints: RoomTypeConstraint[]): ConstraintViolation[] {
+        const violations: ConstraintViolation[] = [];
+
+        for (const constraint of constraints) {
+            const count = roomTypes.filter(type => type === constraint.roomType).length;
+
+            if (constraint.min !== undefined && count < constraint.min) {
+                violations.push({
+                    kind: 'min',
+                    roomType: constraint.roomType,
+                    message: `Needs at least ${constraint.min} ${constraint.roomType}, but has ${count}`
+                });
+            }
+            if (constraint.max !== undefined && count > constraint.max) {
+                violations.push({
+                    kind: 'max',
+                    roomType: constraint.roomType,
+                    message: `Can have at most ${constraint.max} ${constraint.roomType}, but has ${count}`
+                });
+            }
+            if (count > 0) {
+                for (const required of constraint.requires ?? []) {
+                    if (!roomTypes.includes(required)) {
+                        violations.push({
+                            kind: 'requires',
+                            roomType: constraint.roomType,
+                            message: `${constraint.roomType} requires a ${required}, but there is none`
+                        });
+                    }
+                }
+            }
+        }
+
+        return violations;
+    }
+
+    /**
+     * Checks placed rooms against every constraint, including the deck they must be on
+     * @param rooms Each room's ID, type and deck index
+     * @returns Every constraint the rooms break (empty if they meet them all)
+     */
+    static findViolations(rooms: Array<{ id: number; type: RoomType; deck: number }>, constraints: RoomTypeConstraint[]): ConstraintViolation[] {
+        const violations = this.findCountViolations(rooms.map(room => room.type), constraints);
+        if (rooms.length === 0) return violations;
+
+        const topDeck = Math.min(...rooms.map(room => room.deck));
+        const bottomDeck = Math.max(...rooms.map(room => room.deck));
+
+        for (const room of rooms) {
+            const requiredDeck = this.getRequiredDeck(room.type, constraints, topDeck, bottomDeck);
+            if (requiredDeck !== undefined && room.deck !== requiredDeck) {
+                violations.push({
+                    kind: 'deck',
+                    roomType: room.type,
+                    roomId: room.id,
+                    message: `${room.type} in room ${room.id} must be on the ${requiredDeck === topDeck ? 'top' : 'bottom'} deck, but is on deck ${room.deck + 1}`
+                });
+            }
+        }
+
+        return violations;
+    }
+
+    /**
+     * Checks a set of constraints for mistakes, such as a minimum above the maximum
+     * @returns A description of each problem found (empty if the constraints are valid)
+     */
+    static validate(constraints: RoomTypeConstraint[]): string[] {
+        const errors: string[] = [];
+        const roomTypes = Object.values(RoomType);
+        const seen = new Set<RoomType>();
+
+        for (const constraint of constraints) {
+            const { roomType, min, max, requires = [], deck } = constraint;
+
+            if (!roomTypes.includes(roomType)) {
+                errors.push(`Unknown room type "${roomType}"`);
+                continue;
+            }
+            if (seen.has(roomType)) {
+                errors.push(`${roomType} has more than one constraint`);
+            }
+            seen.add(roomType);
+
+            for (const [field, value] of [['min', min], ['max', max]] as const) {
+                if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+                    errors.push(`${roomType}: "${field}" must be a whole number of 0 or more`);
+                }
+            }
+            if (min !== undefined && max !== undefined && min > max) {
+                errors.push(`${roomType}: "min" (${min}) is more than "max" (${max})`);
+            }
+            for (const required of requires) {
+                if (!roomTypes.includes(required)) {
+                    errors.push(`${roomType}: requires unknown room type "${required}"`);
+                } else if (required === roomType) {
+                    errors.push(`${roomType}: requires itself`);
+                } else if (constraints.find(c => c.roomType === required)?.max === 0) {
+                    errors.push(`${roomType}: requires ${required}, which has a maximum of 0`);
+                }
+            }
+            if (deck !== undefined && deck !== 'top' && deck !== 'bottom') {
+                errors.push(`${roomType}: "deck" must be "top" or "bottom"`);
+            }
+        }
+
+        return errors;
+    }
+
+    /**
+     * Checks the default and ship-specific constraints
+     * @throws Error listing every problem found
+     */
+    static checkConstraints(): void {
+        const errors = [
+            ...this.validate(DEFAULT_ROOM_CONSTRAINTS).map(error => `Default: ${error}`),
+            ...Object.keys(SHIP_SPECIFIC_CONSTRAINTS).flatMap(shipType =>
+                this.validate(this.forShipType(shipType)).map(error => `${shipType}: ${error}`)
+            )
+        ];
+        if (errors.length > 0) {
+            throw new Error(`Invalid room constraints:\n${errors.map(error => `- ${error}`).join('\n')}`);
+        }
+    }
+}
+
+// Catch mistakes in the constraints above as soon as the module loads
+RoomConstraints.checkConstraints();
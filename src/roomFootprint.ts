@@ -0,0 +1,257 @@
+import type { DoorPlacement, RoomFootprint, RoomNode } from './types';
+import { RoomType } from './types';
+import type { Dice } from './dice';
+
+/**
+ * The area covered by a room, expressed in grid cells
+ */
+export interface GridBounds {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * A footprint a room type may use, with its weighted probability
+ * Higher numbers = higher probability of that footprint being selected
+ */
+export interface FootprintOption {
+    footprint: RoomFootprint;
+    weight: number;
+}
+
+const SINGLE: RoomFootprint = { width: 1, height: 1 };
+const WIDE: RoomFootprint = { width: 2, height: 1 };
+const SQUARE: RoomFootprint = { width: 2, height: 2 };
+const LARGE: RoomFootprint = { width: 3, height: 2 };
+
+/**
+ * Footprint options per room type
+ * Large open spaces (cargo holds, habitat areas) can span several cells and decks,
+ * while compact rooms (computer cores, medbays) stay in a single cell.
+ */
+export const ROOM_FOOTPRINT_OPTIONS: Record<RoomType, FootprintOption[]> = {
+    [RoomType.BARRACKS]: [
+        { footprint: SINGLE, weight: 3 },
+        { footprint: WIDE, weight: 3 },
+        { footprint: SQUARE, weight: 1 }
+    ],
+    [RoomType.CARGO_HOLD]: [
+        { footprint: SINGLE, weight: 3 },
+        { footprint: WIDE, weight: 3 },
+        { footprint: SQUARE, weight: 2 },
+        { footprint: LARGE, weight: 1 }
+    ],
+    [RoomType.COMMAND]: [
+        { footprint: SINGLE, weight: 3 },
+        { footprint: WIDE, weight: 1 }
+    ],
+    [RoomType.COMPUTER]: [
+        { footprint: SINGLE, weight: 1 }
+    ],
+    [RoomType.CRYOCHAMBER]: [
+        { footprint: SINGLE, weight: 3 },
+        { footprint: WIDE, weight: 2 }
+    ],
+    [RoomType.ENGINE]: [
+        { footprint: SINGLE, weight: 3 },
+        { footprint: WIDE, weight: 2 },
+        { footprint: SQUARE, weight: 1 }
+    ],
+    [RoomType.ENGINES]: [
+        { footprint: SINGLE, weight: 3 },
+        { footprint: WIDE, weight: 2 },
+        { footprint: SQUARE, weight: 1 }
+    ],
+    [RoomType.GALLEY]: [
+        { footprint: SINGLE, weight: 3 },
+        { footprint: WIDE, weight: 1 }
+    ],
+    [RoomType.HABITAT_AREA]: [
+        { footprint: SINGLE, weight: 2 },
+        { footprint: WIDE, weight: 3 },
+        { footprint: SQUARE, weight: 2 },
+        { footprint: LARGE, weight: 1 }
+    ],
+    [RoomType.JUMP_DRIVE]: [
+        { footprint: SINGLE, weight: 2 },
+        { footprint: SQUARE, weight: 1 }
+    ],
+    [RoomType.LIFE_SUPPORT]: [
+        { footprint: SINGLE, weight: 3 },
+        { footprint: WIDE, weight: 1 }
+    ],
+    [RoomType.LIVING_QUARTERS]: [
+        { footprint: SINGLE, weight: 3 },
+        { footprint: WIDE, weight: 2 }
+    ],
+    [RoomType.MEDBAY]: [
+        { footprint: SINGLE, weight: 1 }
+    ],
+    [RoomType.SCIENCE_LAB]: [
+        { footprint: SINGLE, weight: 3 },
+        { footprint: WIDE, weight: 1 }
+    ],
+    [RoomType.THRUSTERS]: [
+        { footprint: SINGLE, weight: 3 },
+        { footprint: WIDE, weight: 1 }
+    ],
+    [RoomType.WEAPON]: [
+        { footprint: SINGLE, weight: 1 }
+    ]
+};
+
+/**
+ * Utility class for working with multi-cell room footprints
+ */
+export class RoomFootprints {
+    /**
+     * Gets the footprint of a room, defaulting to a single cell
+     */
+    static getFootprint(room: RoomNode): RoomFootprint {
+        return room.footprint || SINGLE;
+    }
+
+    /**
+     * Gets the grid cells covered by a room
+     * @param room The room to measure
+     * @param cellSize The size of a grid cell in pixels
+     */
+    static getBounds(room: RoomNode, cellSize: number): GridBounds {
+        const { width, height } = this.getFootprint(room);
+
+        return {
+            x: Math.floor(room.x / cellSize),
+            y: Math.floor(room.y / cellSize),
+            width,
+            height
+        };
+    }
+
+    /**
+     * Lists every grid cell covered by a room
+     */
+    static getCells(room: RoomNode, cellSize: number): Array<{ x: number, y: number }> {
+        const bounds = this.getBounds(room, cellSize);
+        const cells: Array<{ x: number, y: number }> = [];
+
+        for (let y = bounds.y; y < bounds.y + bounds.height; y++) {
+            for (let x = bounds.x; x < bounds.x + bounds.width; x++) {
+                cells.push({ x, y });
+            }
+        }
+
+        return cells;
+    }
+
+    /**
+     * Checks whether a room covers the given grid cell
+     */
+    static containsCell(room: RoomNode, x: number, y: number, cellSize: number): boolean {
+        const bounds = this.getBounds(room, cellSize);
+        return x >= bounds.x && x < bounds.x + bounds.width &&
+            y >= bounds.y && y < bounds.y + bounds.height;
+    }
+
+    /**
+     * Finds every cell edge shared by two rooms.
+     * Each edge is described from the source room's side, so a door can be
+     * placed on any of the returned positions.
+     *
+     * @returns The shared edges, ordered along the wall (empty if the rooms are not adjacent)
+     */
+    static getSharedEdges(source: RoomNode, target: RoomNode, cellSize: number): DoorPlacement[] {
+        const a = this.getBounds(source, cellSize);
+        const b = this.getBounds(target, cellSize);
+        const edges: DoorPlacement[] = [];
+
+        // Overlapping rows (for east/west walls) and columns (for north/south walls)
+        const rowStart = Math.max(a.y, b.y);
+        const rowEnd = Math.min(a.y + a.height, b.y + b.height);
+        const colStart = Math.max(a.x, b.x);
+        const colEnd = Math.min(a.x + a.width, b.x + b.width);
+
+        if (a.x + a.width === b.x) {
+            for (let y = rowStart; y < rowEnd; y++) {
+                edges.push({ x: a.x + a.width - 1, y, side: 'east' });
+            }
+        } else if (b.x + b.width === a.x) {
+            for (let y = rowStart; y < rowEnd; y++) {
+                edges.push({ x: a.x, y, side: 'west' });
+            }
+        } else if (a.y + a.height === b.y) {
+            for (let x = colStart; x < colEnd; x++) {
+                edges.push({ x, y: a.y + a.height - 1, side: 'south' });
+            }
+        } else if (b.y + b.height === a.y) {
+            for (let x = colStart; x < colEnd; x++) {
+                edges.push({ x, y: a.y, side: 'north' });
+            }
+        }
+
+        return edges;
+    }
+
+    /**
+     * Checks whether two rooms share at least one cell edge
+     */
+    static areAdjacent(source: RoomNode, target: RoomNode, cellSize: number): boolean {
+        return this.getSharedEdges(source, target, cellSize).length > 0;
+    }
+
+    /**
+     * Gets the two grid cells either side of a door
+     * @returns The cell on the source side followed by the cell on the target side
+     */
+    static getDoorCells(door: DoorPlacement): [{ x: number, y: number }, { x: number, y: number }] {
+        const offsets = {
+            north: { x: 0, y: -1 },
+            south: { x: 0, y: 1 },
+            east: { x: 1, y: 0 },
+            west: { x: -1, y: 0 }
+        };
+        const offset = offsets[door.side];
+
+        return [
+            { x: door.x, y: door.y },
+            { x: door.x + offset.x, y: door.y + offset.y }
+        ];
+    }
+
+    /**
+     * Checks whether a footprint is one of a room type's options
+     */
+    static suitsRoomType(footprint: RoomFootprint, roomType: RoomType): boolean {
+        return (ROOM_FOOTPRINT_OPTIONS[roomType] || []).some(option =>
+            option.footprint.width === footprint.width && option.footprint.height === footprint.height
+        );
+    }
+
+    /**
+     * Picks a footprint for a room type using weighted probabilities
+     * @param roomType The room type (rooms without a type get a single cell)
+     * @param maxWidth The widest footprint that fits at the placement position
+     * @param maxHeight The tallest footprint that fits (number of decks remaining)
+     * @param dice The dice to roll with
+     * @returns The selected footprint
+     */
+    static pickFootprint(roomType: RoomType | undefined, maxWidth: number, maxHeight: number, dice: Dice): RoomFootprint {
+        if (!roomType) return SINGLE;
+
+        const options = (ROOM_FOOTPRINT_OPTIONS[roomType] || []).filter(option =>
+            option.footprint.width <= maxWidth && option.footprint.height <= maxHeight
+        );
+
+        const totalWeight = options.reduce((sum, option) => sum + option.weight, 0);
+        if (totalWeight === 0) return SINGLE;
+
+        let roll = dice.d(totalWeight);
+        for (const option of options) {
+            roll -= option.weight;
+            if (roll <= 0) return option.footprint;
+        }
+
+        return SINGLE;
+    }
+}
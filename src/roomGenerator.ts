@@ -1,8 +1,27 @@
-import type { DungeonGraph, RoomNode } from './types';
+import type { DungeonGraph, RoomFootprint, RoomLink, RoomNode } from './types';
 import { RoomType } from './types';
 import { RoomAssigner } from './roomAssignment';
+import { RoomConstraints } from './roomConstraints';
+import { RoomFootprints } from './roomFootprint';
 import { RoomPlacementRuleEngine } from './roomPlacementRules';
+import {
+    RoomTypeOptimizer,
+    type RoomPlacementExplanation,
+    type RoomTypeLayout,
+    type RoomTypeOptimizerOptions
+} from './roomTypeOptimizer';
 import { DUNGEON_CONSTANTS } from './constants';
+import { Dice } from './dice';
+import type { PRNG } from './prng';
+import type { RollLog } from './rollLog';
+
+/**
+ * The result of applying room types to a ship layout
+ */
+export interface RoomTypeApplication {
+    graph: DungeonGraph;                         // The layout with room types assigned
+    explanations: RoomPlacementExplanation[];    // Why each room got its type, in room order
+}
 
 /**
  * RoomGenerator - Applies room type assignments to an existing ship layout
@@ -13,9 +32,22 @@ import { DUNGEON_CONSTANTS } from './constants';
  */
 export class RoomGenerator {
     private cellSize: number;
+    private dice: Dice;
+    private optimizerRng: PRNG; // Chooses the optimiser's swaps (not logged, there are thousands)
+    private optimizerOptions: RoomTypeOptimizerOptions;
+    private log?: RollLog;
 
-    constructor() {
+    /**
+     * @param rng The generator for this ship; room types are rolled from its "room-types" stream
+     * @param log Where to record the rolls (optional)
+     * @param optimizerOptions The iteration budget for improving the placement (see RoomTypeOptimizer)
+     */
+    constructor(rng: PRNG, log?: RollLog, optimizerOptions: RoomTypeOptimizerOptions = {}) {
         this.cellSize = DUNGEON_CONSTANTS.CELL_SIZE;
+        this.dice = new Dice(rng.fork('room-types'), log, 'room-types');
+        this.optimizerRng = rng.fork('room-optimizer');
+        this.optimizerOptions = optimizerOptions;
+        this.log = log;
     }
 
     /**
@@ -23,12 +55,13 @@ export class RoomGenerator {
      * 
      * @param shipGraph The existing ship layout graph
      * @param shipType The type of ship (e.g., "Mining Frigate", "Raider")
-     * @returns The updated ship layout with room types assigned
+     * @returns The updated ship layout with room types assigned, and why each room got its type
      */
-    applyRoomTypes(shipGraph: DungeonGraph, shipType: string): DungeonGraph {
+    applyRoomTypes(shipGraph: DungeonGraph, shipType: string): RoomTypeApplication {
 
         // Create a working copy of the graph to avoid modifying the original
         const workingGraph: DungeonGraph = {
+            ...shipGraph,
             rooms: [...shipGraph.rooms],
             links: [...shipGraph.links]
         };
@@ -36,37 +69,45 @@ export class RoomGenerator {
         // Calculate the total number of decks
         const totalDecks = this.calculateTotalDecks(workingGraph);
 
-        // First, generate candidate room types based on ship type
-        const roomTypes = RoomAssigner.assignRoomTypesForShip(
-            shipType,
-            workingGraph.rooms.length
-        );
+        // Only rooms get a type, corridors are left as they are
+        const rooms = workingGraph.rooms.filter(room => room.kind !== 'corridor');
 
-        const typeCounts: Record<string, number> = {};
-        roomTypes.forEach(type => {
-            typeCounts[type] = (typeCounts[type] || 0) + 1;
-        });
-        Object.entries(typeCounts).forEach(([type, count]) => {
-        });
+        // First, generate candidate room types based on ship type and its constraints
+        const constraints = RoomConstraints.forShipType(shipType);
+        const { roomTypes } = this.dice.within('room placement', () =>
+            RoomAssigner.assignRoomTypesForShip(shipType, rooms.length, this.dice, constraints)
+        );
 
         // Create a map to store the best room type for each room position
         const roomTypeAssignments = new Map<number, RoomType>();
 
         // Create an array of room positions with their deck indices
-        const roomPositions = workingGraph.rooms.map(room => {
+        const roomPositions = rooms.map(room => {
             return {
                 id: room.id,
                 x: Math.floor(room.x / this.cellSize),
-                y: Math.floor(room.y / this.cellSize)
+                y: Math.floor(room.y / this.cellSize),
+                footprint: RoomFootprints.getFootprint(room)
             };
         });
 
         // Find adjacent rooms for each room
         const adjacencyMap = this.buildAdjacencyMap(workingGraph);
 
+        // Room types that must be on the top or bottom deck can only go there
+        const topDeck = Math.min(...roomPositions.map(pos => pos.y));
+        const bottomDeck = Math.max(...roomPositions.map(pos => pos.y));
+        const getRequiredDeck = (roomType: RoomType) =>
+            RoomConstraints.getRequiredDeck(roomType, constraints, topDeck, bottomDeck);
+        const byDeckRequirement = (a: RoomType, b: RoomType) =>
+            Number(getRequiredDeck(b) !== undefined) - Number(getRequiredDeck(a) !== undefined);
+
         // Score each possible room type for each position
-        // Start with guaranteed rooms (COMMAND, ENGINE, LIFE_SUPPORT)
-        const guaranteedTypes = [RoomType.COMMAND, RoomType.ENGINE, RoomType.LIFE_SUPPORT];
+        // Start with one of each room type the ship must have (e.g. COMMAND, ENGINE, LIFE_SUPPORT),
+        // the ones tied to a deck first so they get a place on it
+        const guaranteedTypes = Array.from(new Set(RoomConstraints.getRequiredRoomTypes(constraints)))
+            .filter(type => roomTypes.includes(type))
+            .sort(byDeckRequirement);
 
         this.assignGuaranteedRooms(
             guaranteedTypes,
@@ -74,22 +115,19 @@ export class RoomGenerator {
             roomTypeAssignments,
             totalDecks,
             shipType,
-            adjacencyMap
+            adjacencyMap,
+            getRequiredDeck
         );
 
-        // Log guaranteed room assignments
-        guaranteedTypes.forEach(type => {
-            const roomId = [...roomTypeAssignments.entries()]
-                .find(([, roomType]) => roomType === type)?.[0];
-
-            if (roomId !== undefined) {
-                const pos = roomPositions.find(p => p.id === roomId);
+        // Get remaining room types to assign (each guaranteed room uses up one of its type)
+        const remainingRoomTypes = [...roomTypes];
+        for (const assignedType of roomTypeAssignments.values()) {
+            const index = remainingRoomTypes.indexOf(assignedType);
+            if (index !== -1) {
+                remainingRoomTypes.splice(index, 1);
             }
-        });
-
-        // Get remaining room types to assign (excluding already assigned guaranteed types)
-        const assignedRoomTypes = Array.from(roomTypeAssignments.values());
-        const remainingRoomTypes = roomTypes.filter(type => !assignedRoomTypes.includes(type));
+        }
+        remainingRoomTypes.sort(byDeckRequirement);
 
         // Get remaining room positions
         const remainingPositions = roomPositions.filter(pos =>
@@ -104,13 +142,37 @@ export class RoomGenerator {
             roomTypeAssignments,
             totalDecks,
             shipType,
-            adjacencyMap
+            adjacencyMap,
+            getRequiredDeck
         );
 
+        // The greedy passes never revisit a choice, so improve the assignment as a whole
+        const layout: RoomTypeLayout = {
+            decks: new Map(roomPositions.map(pos => [pos.id, pos.y])),
+            adjacency: adjacencyMap,
+            totalDecks,
+            shipType,
+            getRequiredDeck,
+            suitsRoom: (id, roomType) => RoomFootprints.suitsRoomType(
+                roomPositions.find(pos => pos.id === id)!.footprint,
+                roomType
+            )
+        };
+        const optimization = RoomTypeOptimizer.optimize(roomTypeAssignments, layout, this.optimizerRng, this.optimizerOptions);
+        workingGraph.roomTypeScore = optimization.score;
+
+        // Report any constraints the ship can't meet, such as too few rooms for every required one
+        workingGraph.constraintViolations = RoomConstraints.findViolations(
+            roomPositions.flatMap(pos => {
+                const type = optimization.assignments.get(pos.id);
+                return type ? [{ id: pos.id, type, deck: pos.y }] : [];
+            }),
+            constraints
+        );
 
         // Apply the room type assignments to the working graph
         workingGraph.rooms = workingGraph.rooms.map(room => {
-            const assignedType = roomTypeAssignments.get(room.id);
+            const assignedType = optimization.assignments.get(room.id);
             if (assignedType) {
                 // Create a new room object with the assigned type
                 return {
@@ -122,7 +184,51 @@ export class RoomGenerator {
             return room;
         });
 
-        return workingGraph;
+        // Point the links, exterior features and repairs at the rooms with their new types
+        const typedRooms = new Map(workingGraph.rooms.map(room => [room.id, room]));
+        const typed = (room: RoomNode) => typedRooms.get(room.id) ?? room;
+        const retarget = (link: RoomLink): RoomLink => ({ ...link, source: typed(link.source), target: typed(link.target) });
+        workingGraph.links = workingGraph.links.map(retarget);
+        workingGraph.exteriorFeatures = shipGraph.exteriorFeatures?.map(feature => ({ ...feature, room: typed(feature.room) }));
+        workingGraph.repairs = shipGraph.repairs?.map(repair => ({
+            ...repair,
+            links: repair.links.map(retarget),
+            addedNodes: repair.addedNodes?.map(typed)
+        }));
+
+        if (this.log) {
+            workingGraph.rollLog = this.log.getEvents();
+        }
+
+        return {
+            graph: workingGraph,
+            explanations: RoomTypeOptimizer.explain(optimization.assignments, layout)
+                .sort((a, b) => a.roomId - b.roomId)
+        };
+    }
+
+    /**
+     * Explains the room types of a ship whose rooms already have types,
+     * however they were assigned
+     *
+     * @param shipGraph The ship layout with room types
+     * @param shipType The type of ship the placement rules are for
+     * @returns Why each room's type scores as it does, in room order
+     */
+    explainRoomTypes(shipGraph: DungeonGraph, shipType: string): RoomPlacementExplanation[] {
+        const assignments = new Map<number, RoomType>();
+        for (const room of shipGraph.rooms) {
+            if (room.kind !== 'corridor' && room.type) {
+                assignments.set(room.id, room.type);
+            }
+        }
+
+        return RoomTypeOptimizer.explain(assignments, {
+            decks: new Map(shipGraph.rooms.map(room => [room.id, Math.floor(room.y / this.cellSize)])),
+            adjacency: this.buildAdjacencyMap(shipGraph),
+            totalDecks: this.calculateTotalDecks(shipGraph),
+            shipType
+        }).sort((a, b) => a.roomId - b.roomId);
     }
 
     /**
@@ -174,22 +280,43 @@ export class RoomGenerator {
     }
 
     /**
-     * Assigns guaranteed room types (COMMAND, ENGINE, LIFE_SUPPORT)
+     * Narrows positions to the deck a room type must be on, then to rooms whose
+     * footprint suits the type (a COMPUTER never fills a three-cell hold)
+     * If none of the positions are on that deck the constraint can't be met,
+     * so every position is allowed (and the violation is reported afterwards).
+     * Likewise a type goes in an unsuitable room only when no suitable one is left.
+     */
+    private getAllowedPositions<T extends { y: number; footprint: RoomFootprint }>(
+        roomType: RoomType,
+        positions: T[],
+        getRequiredDeck: (roomType: RoomType) => number | undefined
+    ): T[] {
+        const requiredDeck = getRequiredDeck(roomType);
+        const onDeck = positions.filter(pos => pos.y === requiredDeck);
+        const allowed = requiredDeck !== undefined && onDeck.length > 0 ? onDeck : positions;
+
+        const suited = allowed.filter(pos => RoomFootprints.suitsRoomType(pos.footprint, roomType));
+        return suited.length > 0 ? suited : allowed;
+    }
+
+    /**
+     * Assigns guaranteed room types (those the ship's constraints require)
      * to their optimal positions in the ship
      */
     private assignGuaranteedRooms(
         guaranteedTypes: RoomType[],
-        roomPositions: Array<{ id: number, x: number, y: number }>,
+        roomPositions: Array<{ id: number, x: number, y: number, footprint: RoomFootprint }>,
         assignments: Map<number, RoomType>,
         totalDecks: number,
         shipType: string,
-        adjacencyMap: Map<number, number[]>
+        adjacencyMap: Map<number, number[]>,
+        getRequiredDeck: (roomType: RoomType) => number | undefined
     ): void {
         for (const roomType of guaranteedTypes) {
 
             // Score each position for this room type
-            const scoredPositions = roomPositions
-                .filter(pos => !assignments.has(pos.id)) // Only consider unassigned positions
+            const unassignedPositions = roomPositions.filter(pos => !assignments.has(pos.id)); // Only consider unassigned positions
+            const scoredPositions = this.getAllowedPositions(roomType, unassignedPositions, getRequiredDeck)
                 .map(pos => {
                     // Get deck position score
                     const deckScore = RoomPlacementRuleEngine.getDeckPositionScore(
@@ -234,7 +361,6 @@ export class RoomGenerator {
             if (scoredPositions.length > 0) {
                 const bestPosition = scoredPositions[0];
                 assignments.set(bestPosition.id, roomType);
-            } else {
             }
         }
     }
@@ -244,15 +370,15 @@ export class RoomGenerator {
      */
     private assignRemainingRooms(
         remainingTypes: RoomType[],
-        remainingPositions: Array<{ id: number, x: number, y: number }>,
+        remainingPositions: Array<{ id: number, x: number, y: number, footprint: RoomFootprint }>,
         assignments: Map<number, RoomType>,
         totalDecks: number,
         shipType: string,
-        adjacencyMap: Map<number, number[]>
+        adjacencyMap: Map<number, number[]>,
+        getRequiredDeck: (roomType: RoomType) => number | undefined
     ): void {
         // Create a copy of positions to work with
         const availablePositions = [...remainingPositions];
-        let assignedTypeCount = 0;
 
         // For each remaining room type
         for (const roomType of remainingTypes) {
@@ -261,7 +387,7 @@ export class RoomGenerator {
             }
 
             // Score each position for this room type
-            const scoredPositions = availablePositions.map(pos => {
+            const scoredPositions = this.getAllowedPositions(roomType, availablePositions, getRequiredDeck).map(pos => {
                 // Get deck position score
                 const deckScore = RoomPlacementRuleEngine.getDeckPositionScore(
                     roomType,
@@ -305,9 +431,6 @@ export class RoomGenerator {
             if (scoredPositions.length > 0) {
                 const bestPosition = scoredPositions[0];
                 assignments.set(bestPosition.id, roomType);
-                assignedTypeCount++;
-
-                // Log all room assignments with their IDs - always log, not just high scoring ones
 
                 // Remove this position from available positions
                 const index = availablePositions.findIndex(
@@ -318,7 +441,5 @@ export class RoomGenerator {
                 }
             }
         }
-
-        // Log how many positions were filled
     }
 } 
\ No newline at end of file
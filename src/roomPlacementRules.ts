@@ -48,6 +48,37 @@ export interface AdjacencyRule {
     avoidAdjacent: RoomType[];      // Should not be adjacent if possible
 }
 
+/**
+ * Where a placement rule came from: the defaults, or a ship type's overrides
+ */
+export type PlacementRuleSource = 'DECK_PLACEMENT_RULES' | 'SHIP_SPECIFIC_PLACEMENT';
+export type AdjacencyRuleSource = 'ADJACENCY_RULES' | 'SHIP_SPECIFIC_ADJACENCY';
+
+/**
+ * Why a room type scored what it did on a deck
+ */
+export interface DeckPositionExplanation {
+    zone: DeckPosition;              // The zone the deck is in
+    preferredPosition: DeckPosition;
+    avoidPosition?: DeckPosition;
+    placementWeight: number;
+    score: number;                   // Same as getDeckPositionScore
+    source: PlacementRuleSource;
+}
+
+/**
+ * One part of an adjacency score: a rule for one room type about the other
+ * - required, preferred, avoided: from the rule's lists
+ * - cluster: the room type prefers to be next to more of itself
+ */
+export interface AdjacencyReason {
+    roomType: RoomType;  // The room type whose rule this is
+    other: RoomType;     // The room type the rule is about
+    relation: 'required' | 'preferred' | 'avoided' | 'cluster';
+    score: number;
+    source: AdjacencyRuleSource;
+}
+
 /**
  * Default deck placement rules for each room type
  * These define where on the ship (vertically) each room type should ideally be placed
@@ -468,67 +499,88 @@ export class RoomPlacementRuleEngine {
      * @returns Adjacency score (-10 to 10)
      */
     static getAdjacencyScore(roomType1: RoomType, roomType2: RoomType, shipType: string): number {
+        const score = this.explainAdjacency(roomType1, roomType2, shipType)
+            .reduce((total, reason) => total + reason.score, 0);
+
+        // Return the final score, clamped to range -10 to 10
+        return Math.max(-10, Math.min(10, score));
+    }
+
+    /**
+     * Lists the rules that make up the adjacency score of two room types, from both rooms' perspectives
+     * The score is their sum, clamped to -10 to 10.
+     * @param roomType1 First room type
+     * @param roomType2 Second room type
+     * @param shipType Type of ship
+     */
+    static explainAdjacency(roomType1: RoomType, roomType2: RoomType, shipType: string): AdjacencyReason[] {
         if (roomType1 === roomType2) {
             // Same room types can sometimes cluster (like cargo holds or science labs)
             // Check if this room type should cluster
             const rule = ADJACENCY_RULES.find(r => r.roomType === roomType1);
             if (rule && rule.preferredAdjacent.includes(roomType1)) {
-                return 5; // These room types can cluster
+                // These room types can cluster
+                return [{ roomType: roomType1, other: roomType2, relation: 'cluster', score: 5, source: 'ADJACENCY_RULES' }];
             }
-            return 0; // Neutral for same type
+            return []; // Neutral for same type
         }
 
-        // Get default rule for first room type
-        const defaultRule1 = ADJACENCY_RULES.find(rule => rule.roomType === roomType1);
-        if (!defaultRule1) return 0; // No rule found
+        // No rule for the first room type means no score at all
+        if (!ADJACENCY_RULES.some(rule => rule.roomType === roomType1)) return [];
+
+        // Score the first room's rule about the second, then the reciprocal
+        return [
+            ...this.getAdjacencyReasons(roomType1, roomType2, shipType),
+            ...this.getAdjacencyReasons(roomType2, roomType1, shipType)
+        ];
+    }
+
+    /**
+     * Scores one room type's adjacency rule about another
+     * Required adjacency is a strong positive, preferred a moderate positive and avoided a negative
+     */
+    private static getAdjacencyReasons(roomType: RoomType, other: RoomType, shipType: string): AdjacencyReason[] {
+        const defaultRule = ADJACENCY_RULES.find(rule => rule.roomType === roomType);
+        if (!defaultRule) return [];
 
         // Check for ship-specific rule overrides
         const shipRules = SHIP_SPECIFIC_ADJACENCY[shipType] || [];
-        const shipRule1 = shipRules.find(rule => rule.roomType === roomType1);
+        const shipRule = shipRules.find(rule => rule.roomType === roomType);
 
         // Combine rules
-        const rule1 = shipRule1 ? { ...defaultRule1, ...shipRule1 } : defaultRule1;
-
-        // Calculate base adjacency score
-        let score = 0;
-
-        // Required adjacency is a strong positive
-        if (rule1.requiredAdjacent && rule1.requiredAdjacent.includes(roomType2)) {
-            score += 10;
-        }
-
-        // Preferred adjacency is a moderate positive
-        if (rule1.preferredAdjacent && rule1.preferredAdjacent.includes(roomType2)) {
-            score += 5;
-        }
-
-        // Avoided adjacency is a negative
-        if (rule1.avoidAdjacent && rule1.avoidAdjacent.includes(roomType2)) {
-            score -= 7;
-        }
-
-        // Also check the rule for the second room type (reciprocal relationship)
-        const defaultRule2 = ADJACENCY_RULES.find(rule => rule.roomType === roomType2);
-        if (defaultRule2) {
-            const shipRule2 = shipRules.find(rule => rule.roomType === roomType2);
-            const rule2 = shipRule2 ? { ...defaultRule2, ...shipRule2 } : defaultRule2;
-
-            // Add points from the second room's perspective
-            if (rule2.requiredAdjacent && rule2.requiredAdjacent.includes(roomType1)) {
-                score += 10;
-            }
-
-            if (rule2.preferredAdjacent && rule2.preferredAdjacent.includes(roomType1)) {
-                score += 5;
-            }
+        const rule = shipRule ? { ...defaultRule, ...shipRule } : defaultRule;
+
+        const relations = [
+            { relation: 'required', list: 'requiredAdjacent', score: 10 },
+            { relation: 'preferred', list: 'preferredAdjacent', score: 5 },
+            { relation: 'avoided', list: 'avoidAdjacent', score: -7 }
+        ] as const;
+
+        return relations
+            .filter(({ list }) => rule[list] && rule[list].includes(other))
+            .map(({ relation, list, score }) => ({
+                roomType,
+                other,
+                relation,
+                score,
+                source: shipRule?.[list] !== undefined ? 'SHIP_SPECIFIC_ADJACENCY' : 'ADJACENCY_RULES'
+            }));
+    }
 
-            if (rule2.avoidAdjacent && rule2.avoidAdjacent.includes(roomType1)) {
-                score -= 7;
-            }
-        }
+    /**
+     * Gets the zone of the ship a deck belongs to
+     * @param deckIndex The deck index (0-based)
+     * @param totalDecks The total number of decks in the ship
+     * @returns UPPER, MIDDLE or LOWER
+     */
+    static getDeckZone(deckIndex: number, totalDecks: number): DeckPosition {
+        // Define deck zones
+        const upperDeckThreshold = Math.floor(totalDecks * 0.33);
+        const lowerDeckThreshold = Math.floor(totalDecks * 0.67);
 
-        // Return the final score, clamped to range -10 to 10
-        return Math.max(-10, Math.min(10, score));
+        return deckIndex <= upperDeckThreshold ? DeckPosition.UPPER :
+            deckIndex >= lowerDeckThreshold ? DeckPosition.LOWER :
+                DeckPosition.MIDDLE;
     }
 
     /**
@@ -564,15 +616,8 @@ export class RoomPlacementRuleEngine {
             return 5; // Slightly positive for flexibility
         }
 
-        // Define deck zones
-        const upperDeckThreshold = Math.floor(totalDecks * 0.33);
-        const lowerDeckThreshold = Math.floor(totalDecks * 0.67);
-
         // Determine which zone this deck is in
-        const deckZone =
-            deckIndex <= upperDeckThreshold ? DeckPosition.UPPER :
-                deckIndex >= lowerDeckThreshold ? DeckPosition.LOWER :
-                    DeckPosition.MIDDLE;
+        const deckZone = this.getDeckZone(deckIndex, totalDecks);
 
         let score = 0;
 
@@ -606,6 +651,33 @@ export class RoomPlacementRuleEngine {
         return Math.max(-50, Math.min(10, score));
     }
 
+    /**
+     * Describes the placement rule behind a room type's deck position score
+     * @returns The rule and its score, or undefined if the room type has no placement rule
+     */
+    static explainDeckPosition(
+        roomType: RoomType,
+        shipType: string,
+        totalDecks: number,
+        deckIndex: number
+    ): DeckPositionExplanation | undefined {
+        const defaultRule = DECK_PLACEMENT_RULES.find(rule => rule.roomType === roomType);
+        if (!defaultRule) return undefined;
+
+        const shipSpecificRules = SHIP_SPECIFIC_PLACEMENT[shipType] || [];
+        const shipOverride = shipSpecificRules.find(rule => rule.roomType === roomType);
+        const rule = shipOverride ? { ...defaultRule, ...shipOverride } : defaultRule;
+
+        return {
+            zone: this.getDeckZone(deckIndex, totalDecks),
+            preferredPosition: rule.preferredPosition,
+            avoidPosition: rule.avoidPosition,
+            placementWeight: rule.placementWeight,
+            score: this.getDeckPositionScore(roomType, shipType, totalDecks, deckIndex),
+            source: shipOverride ? 'SHIP_SPECIFIC_PLACEMENT' : 'DECK_PLACEMENT_RULES'
+        };
+    }
+
     /**
      * Evaluate the optimal horizontal placement for a room on a deck based on adjacency rules
      * @param roomType The room type to place
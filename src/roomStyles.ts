@@ -0,0 +1,123 @@
+import { RoomType } from './types';
+import { SvgTree, type SvgElement } from './svgTree';
+
+/**
+ * Monochrome fills for room types, drawn in grey over white so labels stay readable
+ */
+export type RoomPattern =
+  | 'none'
+  | 'hatch'          // Diagonal lines, bottom-left to top-right
+  | 'back-hatch'     // Diagonal lines, top-left to bottom-right
+  | 'cross-hatch'
+  | 'horizontal'
+  | 'vertical'
+  | 'grid'
+  | 'dots';
+
+/**
+ * What a room's label shows: its type's abbreviation and its number, or just one of them
+ * Rooms without a type always show their number.
+ */
+export type RoomLabelMode = 'both' | 'types' | 'ids';
+
+/**
+ * How a room type is drawn on the map
+ */
+export interface RoomTypeStyle {
+  fill: string;          // Fill colour for colour maps
+  pattern: RoomPattern;  // Fill for monochrome maps
+  glyph: string;         // Icon drawn in the room
+  abbreviation: string;  // Short label that fits in a single cell
+}
+
+/**
+ * Styles for every room type
+ * Related rooms share a colour family and a pattern (propulsion is hatched, crew areas
+ * are dotted, and so on), and the glyph and abbreviation tell them apart in either mode.
+ */
+export const ROOM_TYPE_STYLES: Record<RoomType, RoomTypeStyle> = {
+  // Command and navigation
+  [RoomType.COMMAND]: { fill: '#93c5fd', pattern: 'none', glyph: '★', abbreviation: 'CMD' },
+  [RoomType.COMPUTER]: { fill: '#bfdbfe', pattern: 'grid', glyph: '⌘', abbreviation: 'CPU' },
+
+  // Propulsion
+  [RoomType.ENGINE]: { fill: '#fca5a5', pattern: 'cross-hatch', glyph: '⚙', abbreviation: 'ENG' },
+  [RoomType.ENGINES]: { fill: '#fecaca', pattern: 'cross-hatch', glyph: '⚙', abbreviation: 'ENGS' },
+  [RoomType.THRUSTERS]: { fill: '#fdba74', pattern: 'hatch', glyph: '▲', abbreviation: 'THR' },
+  [RoomType.JUMP_DRIVE]: { fill: '#c4b5fd', pattern: 'back-hatch', glyph: '◎', abbreviation: 'JMP' },
+
+  // Crew areas
+  [RoomType.LIVING_QUARTERS]: { fill: '#fde68a', pattern: 'dots', glyph: '⌂', abbreviation: 'QTR' },
+  [RoomType.BARRACKS]: { fill: '#fef08a', pattern: 'dots', glyph: '≡', abbreviation: 'BRK' },
+  [RoomType.GALLEY]: { fill: '#fed7aa', pattern: 'dots', glyph: '♨', abbreviation: 'GAL' },
+  [RoomType.HABITAT_AREA]: { fill: '#bbf7d0', pattern: 'dots', glyph: '♣', abbreviation: 'HAB' },
+
+  // Storage and support
+  [RoomType.CARGO_HOLD]: { fill: '#d6d3d1', pattern: 'horizontal', glyph: '▦', abbreviation: 'CRG' },
+  [RoomType.LIFE_SUPPORT]: { fill: '#a7f3d0', pattern: 'vertical', glyph: '♥', abbreviation: 'LS' },
+  [RoomType.MEDBAY]: { fill: '#fbcfe8', pattern: 'none', glyph: '✚', abbreviation: 'MED' },
+  [RoomType.CRYOCHAMBER]: { fill: '#a5f3fc', pattern: 'vertical', glyph: '❄', abbreviation: 'CRY' },
+  [RoomType.SCIENCE_LAB]: { fill: '#ddd6fe', pattern: 'grid', glyph: '⚗', abbreviation: 'SCI' },
+  [RoomType.WEAPON]: { fill: '#f87171', pattern: 'hatch', glyph: '✦', abbreviation: 'WPN' }
+};
+
+/**
+ * Utility class for looking up how rooms are drawn
+ */
+export class RoomStyles {
+  static get(roomType: RoomType): RoomTypeStyle {
+    return ROOM_TYPE_STYLES[roomType];
+  }
+
+  /**
+   * Gets a room's label, e.g. "ENG 4", "ENG" or "4"
+   */
+  static getLabel(room: { id: number; type?: RoomType }, mode: RoomLabelMode): string {
+    if (!room.type || mode === 'ids') return String(room.id);
+    const abbreviation = ROOM_TYPE_STYLES[room.type].abbreviation;
+    return mode === 'types' ? abbreviation : `${abbreviation} ${room.id}`;
+  }
+
+  /**
+   * Lists the room types present in a set of rooms, in RoomType order, for a legend
+   */
+  static getLegendTypes(rooms: Array<{ type?: RoomType; kind?: string }>): RoomType[] {
+    const present = new Set(rooms.filter(room => room.kind !== 'corridor' && room.type).map(room => room.type));
+    return Object.values(RoomType).filter(roomType => present.has(roomType));
+  }
+
+  /**
+   * Describes a monochrome pattern as SVG: the tile size and the shapes in one tile
+   * Lines are drawn in the given colour; dots are filled with it.
+   */
+  static getPatternTile(pattern: RoomPattern, color: string): { size: number; shapes: SvgElement[] } {
+    const line = (x1: number, y1: number, x2: number, y2: number) =>
+      SvgTree.create('line', { x1, y1, x2, y2, 'stroke': color, 'stroke-width': 1 });
+
+    switch (pattern) {
+      case 'none':
+        return { size: 8, shapes: [] };
+      case 'hatch':
+        // Extend past the corners so the lines join up across tiles
+        return { size: 8, shapes: [line(-2, 10, 10, -2), line(-2, 2, 2, -2), line(6, 10, 10, 6)] };
+      case 'back-hatch':
+        return { size: 8, shapes: [line(-2, -2, 10, 10), line(6, -2, 10, 2), line(-2, 6, 2, 10)] };
+      case 'cross-hatch':
+        return {
+          size: 8,
+          shapes: [
+            line(-2, 10, 10, -2), line(-2, 2, 2, -2), line(6, 10, 10, 6),
+            line(-2, -2, 10, 10), line(6, -2, 10, 2), line(-2, 6, 2, 10)
+          ]
+        };
+      case 'horizontal':
+        return { size: 6, shapes: [line(0, 3, 6, 3)] };
+      case 'vertical':
+        return { size: 6, shapes: [line(3, 0, 3, 6)] };
+      case 'grid':
+        return { size: 8, shapes: [line(0, 4, 8, 4), line(4, 0, 4, 8)] };
+      case 'dots':
+        return { size: 6, shapes: [SvgTree.create('circle', { cx: 3, cy: 3, r: 1, fill: color })] };
+    }
+  }
+}
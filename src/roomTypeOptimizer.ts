@@ -0,0 +1,335 @@
+import type { RoomType } from './types';
+import {
+    RoomPlacementRuleEngine,
+    type AdjacencyReason,
+    type DeckPositionExplanation
+} from './roomPlacementRules';
+import type { PRNG } from './prng';
+
+/**
+ * How well a room type assignment fits the placement rules
+ * The total is what the optimiser maximises: every room's deck position score
+ * plus the adjacency score of every pair of linked rooms (each pair counted once).
+ */
+export interface RoomTypeScore {
+    total: number;
+    deck: number;      // Sum of getDeckPositionScore over every room
+    adjacency: number; // Sum of getAdjacencyScore over every linked pair of rooms
+}
+
+/**
+ * The result of optimising a room type assignment
+ */
+export interface RoomTypeOptimization {
+    assignments: Map<number, RoomType>; // Room ID -> room type
+    initialScore: RoomTypeScore;        // Score of the assignment the optimiser started from
+    score: RoomTypeScore;               // Score of the best assignment found
+    iterations: number;                 // Swaps tried
+    acceptedSwaps: number;              // Swaps kept, including ones that lowered the score
+}
+
+export interface RoomTypeOptimizerOptions {
+    iterations?: number;          // Swaps to try (defaults to 200 per room, capped at 20000)
+    initialTemperature?: number;  // How readily worse swaps are accepted at the start
+    finalTemperature?: number;    // ... and at the end
+}
+
+/**
+ * The rooms being assigned and what the scores depend on
+ */
+export interface RoomTypeLayout {
+    decks: Map<number, number>;       // Room ID -> deck index
+    adjacency: Map<number, number[]>; // Room ID -> IDs of linked rooms
+    totalDecks: number;
+    shipType: string;
+    getRequiredDeck?: (roomType: RoomType) => number | undefined; // The deck a room type must be on, if any
+    suitsRoom?: (roomId: number, roomType: RoomType) => boolean;  // Whether a room's footprint suits a room type
+}
+
+/**
+ * A linked room's contribution to a room's score
+ */
+export interface NeighbourExplanation {
+    roomId: number;
+    roomType: RoomType;
+    score: number;             // The clamped adjacency score
+    reasons: AdjacencyReason[];
+}
+
+/**
+ * Another room type the room could have had, scored against the same neighbours
+ */
+export interface RoomTypeAlternative {
+    roomType: RoomType;
+    score: number;
+    deckScore: number;
+    adjacencyScore: number;
+}
+
+/**
+ * Why a room has the type it does
+ */
+export interface RoomPlacementExplanation {
+    roomId: number;
+    roomType: RoomType;
+    deck: number;                            // Deck index (0-based)
+    score: number;                           // deckScore + adjacencyScore
+    deckScore: number;
+    deckRule?: DeckPositionExplanation;      // Undefined if the room type has no placement rule
+    adjacencyScore: number;
+    neighbours: NeighbourExplanation[];      // Linked rooms with a type, in link order
+    alternatives: RoomTypeAlternative[];     // The best other types on this ship, best first
+}
+
+const MAX_ALTERNATIVES = 3;
+const DEFAULT_ITERATIONS_PER_ROOM = 200;
+const MAX_DEFAULT_ITERATIONS = 20000;
+const DEFAULT_INITIAL_TEMPERATURE = 10;
+const DEFAULT_FINAL_TEMPERATURE = 0.1;
+
+/**
+ * Utility class for improving a room type assignment as a whole
+ *
+ * Rooms placed greedily never revisit early choices, so an ENGINE can end up
+ * beside LIVING QUARTERS that a later swap would have fixed. The optimiser
+ * anneals over swaps of two rooms' types: swaps that raise the score are always
+ * kept, and ones that lower it are sometimes kept early on to escape local
+ * optima. Swapping keeps the same set of room types, so the counts the ship's
+ * constraints call for stay as they were chosen. Swaps that would move a room
+ * type off the deck it must be on are always skipped; ones that put a room type
+ * in a room of a size it never has are skipped unless they fix as many
+ * misplacements as they make.
+ *
+ * The number of swaps tried is fixed up front and every choice comes from the
+ * generator passed in, so the same seed always gives the same assignment.
+ */
+export class RoomTypeOptimizer {
+    /**
+     * Optimises a room type assignment
+     * @param assignments The starting assignment (room ID -> room type); not modified
+     * @param layout The decks and links of the rooms being assigned
+     * @param rng The generator for choosing swaps
+     * @param options The iteration budget and cooling schedule
+     */
+    static optimize(
+        assignments: Map<number, RoomType>,
+        layout: RoomTypeLayout,
+        rng: PRNG,
+        options: RoomTypeOptimizerOptions = {}
+    ): RoomTypeOptimization {
+        const current = new Map(assignments);
+        const roomIds = Array.from(current.keys());
+        const initialScore = this.score(current, layout);
+
+        const iterations = Math.max(0, Math.floor(options.iterations
+            ?? Math.min(MAX_DEFAULT_ITERATIONS, roomIds.length * DEFAULT_ITERATIONS_PER_ROOM)));
+        const initialTemperature = options.initialTemperature ?? DEFAULT_INITIAL_TEMPERATURE;
+        const finalTemperature = options.finalTemperature ?? DEFAULT_FINAL_TEMPERATURE;
+
+        let currentTotal = initialScore.total;
+        let best = new Map(current);
+        let bestTotal = currentTotal;
+        let acceptedSwaps = 0;
+
+        // Nothing to swap with fewer than two rooms
+        const budget = roomIds.length < 2 ? 0 : iterations;
+
+        for (let i = 0; i < budget; i++) {
+            // Cool geometrically from the initial to the final temperature
+            const temperature = initialTemperature * Math.pow(finalTemperature / initialTemperature, i / Math.max(1, budget - 1));
+
+            const a = roomIds[rng.nextInt(0, roomIds.length - 1)];
+            const b = roomIds[rng.nextInt(0, roomIds.length - 1)];
+            const acceptRoll = rng.next();
+
+            const typeA = current.get(a)!;
+            const typeB = current.get(b)!;
+            if (a === b || typeA === typeB) continue;
+
+            // Never move a room type off the deck it must be on, and don't leave more room types
+            // misplaced than before (a footprint that doesn't suit is only traded for another fix)
+            if ((this.isOffDeck(a, typeB, layout) && !this.isOffDeck(b, typeB, layout)) ||
+                (this.isOffDeck(b, typeA, layout) && !this.isOffDeck(a, typeA, layout))) continue;
+            const misplacedBefore = this.countMisplaced(a, typeA, layout) + this.countMisplaced(b, typeB, layout);
+            const misplacedAfter = this.countMisplaced(a, typeB, layout) + this.countMisplaced(b, typeA, layout);
+            if (misplacedAfter > misplacedBefore) continue;
+
+            // Only the two rooms' own scores change. If they are linked, that pair's
+            // score is in both and is the same either way round, so it cancels out.
+            const before = this.getRoomScore(a, typeA, current, layout) + this.getRoomScore(b, typeB, current, layout);
+            current.set(a, typeB);
+            current.set(b, typeA);
+            const after = this.getRoomScore(a, typeB, current, layout) + this.getRoomScore(b, typeA, current, layout);
+            const delta = after - before;
+
+            if (delta >= 0 || acceptRoll < Math.exp(delta / temperature)) {
+                acceptedSwaps++;
+                currentTotal += delta;
+                if (currentTotal > bestTotal) {
+                    best = new Map(current);
+                    bestTotal = currentTotal;
+                }
+            } else {
+                // Undo the swap
+                current.set(a, typeA);
+                current.set(b, typeB);
+            }
+        }
+
+        return {
+            assignments: best,
+            initialScore,
+            score: this.score(best, layout),
+            iterations: budget,
+            acceptedSwaps
+        };
+    }
+
+    /**
+     * Scores a whole assignment against the placement rules
+     */
+    static score(assignments: Map<number, RoomType>, layout: RoomTypeLayout): RoomTypeScore {
+        let deck = 0;
+        let adjacency = 0;
+
+        for (const [id, type] of assignments) {
+            deck += RoomPlacementRuleEngine.getDeckPositionScore(type, layout.shipType, layout.totalDecks, layout.decks.get(id)!);
+
+            for (const neighbourId of layout.adjacency.get(id) ?? []) {
+                const neighbourType = assignments.get(neighbourId);
+                // Count each pair once, from its lower ID
+                if (neighbourType && id < neighbourId) {
+                    adjacency += RoomPlacementRuleEngine.getAdjacencyScore(type, neighbourType, layout.shipType);
+                }
+            }
+        }
+
+        return { total: deck + adjacency, deck, adjacency };
+    }
+
+    /**
+     * Explains each room's score: its deck rule, what each linked room adds and why,
+     * and the other room types on the ship that would have scored best in its place
+     * @param assignments Room ID -> room type
+     * @param layout The decks and links of the rooms
+     * @returns One explanation per room, in assignment order
+     */
+    static explain(assignments: Map<number, RoomType>, layout: RoomTypeLayout): RoomPlacementExplanation[] {
+        const shipRoomTypes = Array.from(new Set(assignments.values()));
+
+        return Array.from(assignments, ([id, roomType]) => {
+            const deck = layout.decks.get(id)!;
+            const deckScore = RoomPlacementRuleEngine.getDeckPositionScore(roomType, layout.shipType, layout.totalDecks, deck);
+
+            const neighbours: NeighbourExplanation[] = [];
+            for (const neighbourId of layout.adjacency.get(id) ?? []) {
+                const neighbourType = assignments.get(neighbourId);
+                if (!neighbourType) continue;
+                neighbours.push({
+                    roomId: neighbourId,
+                    roomType: neighbourType,
+                    score: RoomPlacementRuleEngine.getAdjacencyScore(roomType, neighbourType, layout.shipType),
+                    reasons: RoomPlacementRuleEngine.explainAdjacency(roomType, neighbourType, layout.shipType)
+                });
+            }
+            const adjacencyScore = neighbours.reduce((total, neighbour) => total + neighbour.score, 0);
+
+            // Score the ship's other room types in this room, with the neighbours as they are
+            const alternatives = shipRoomTypes
+                .filter(type => type !== roomType)
+                .map(type => {
+                    const alternativeDeckScore = RoomPlacementRuleEngine.getDeckPositionScore(type, layout.shipType, layout.totalDecks, deck);
+                    const alternativeAdjacencyScore = neighbours.reduce((total, neighbour) =>
+                        total + RoomPlacementRuleEngine.getAdjacencyScore(type, neighbour.roomType, layout.shipType), 0);
+                    return {
+                        roomType: type,
+                        score: alternativeDeckScore + alternativeAdjacencyScore,
+                        deckScore: alternativeDeckScore,
+                        adjacencyScore: alternativeAdjacencyScore
+                    };
+                })
+                .sort((a, b) => b.score - a.score)
+                .slice(0, MAX_ALTERNATIVES);
+
+            return {
+                roomId: id,
+                roomType,
+                deck,
+                score: deckScore + adjacencyScore,
+                deckScore,
+                deckRule: RoomPlacementRuleEngine.explainDeckPosition(roomType, layout.shipType, layout.totalDecks, deck),
+                adjacencyScore,
+                neighbours,
+                alternatives
+            };
+        });
+    }
+
+    /**
+     * Formats an explanation as lines of text, e.g.
+     * "Deck 4 (LOWER): +15, prefers LOWER, avoids UPPER (DECK_PLACEMENT_RULES)"
+     * "Next to room 5 (COMMAND): -10, ENGINE avoids COMMAND -7 (ADJACENCY_RULES), COMMAND avoids ENGINE -7 (ADJACENCY_RULES)"
+     * "Score 5; runners-up: THRUSTERS 12, ENGINES 10"
+     */
+    static describe(explanation: RoomPlacementExplanation): string[] {
+        const signed = (score: number) => score > 0 ? `+${score}` : `${score}`;
+        const lines: string[] = [];
+
+        const rule = explanation.deckRule;
+        const zone = rule ? ` (${rule.zone})` : '';
+        const preference = rule
+            ? `, prefers ${rule.preferredPosition}${rule.avoidPosition ? `, avoids ${rule.avoidPosition}` : ''} (${rule.source})`
+            : ', no placement rule';
+        lines.push(`Deck ${explanation.deck + 1}${zone}: ${signed(explanation.deckScore)}${preference}`);
+
+        for (const neighbour of explanation.neighbours) {
+            const reasons = neighbour.reasons.map(reason => {
+                const relation = reason.relation === 'cluster'
+                    ? `${reason.roomType} clusters`
+                    : `${reason.roomType} ${reason.relation === 'avoided' ? 'avoids' : reason.relation === 'required' ? 'requires' : 'prefers'} ${reason.other}`;
+                return `${relation} ${signed(reason.score)} (${reason.source})`;
+            });
+            // Adjacency scores are clamped, so the reasons can add up to more than the score
+            const capped = neighbour.reasons.reduce((total, reason) => total + reason.score, 0) !== neighbour.score ? ' (capped)' : '';
+            lines.push(`Next to room ${neighbour.roomId} (${neighbour.roomType}): ${signed(neighbour.score)}${capped}${reasons.length > 0 ? `, ${reasons.join(', ')}` : ''}`);
+        }
+
+        const alternatives = explanation.alternatives.map(alternative => `${alternative.roomType} ${alternative.score}`);
+        lines.push(`Score ${explanation.score}${alternatives.length > 0 ? `; runners-up: ${alternatives.join(', ')}` : ''}`);
+
+        return lines;
+    }
+
+    /**
+     * Counts the ways a room type would be misplaced in this room: off the deck
+     * it must be on, and in a footprint it never has (0 to 2)
+     */
+    private static countMisplaced(id: number, type: RoomType, layout: RoomTypeLayout): number {
+        const unsuited = layout.suitsRoom !== undefined && !layout.suitsRoom(id, type);
+        return Number(this.isOffDeck(id, type, layout)) + Number(unsuited);
+    }
+
+    /**
+     * Checks whether a room is on a different deck from the one a room type must be on
+     */
+    private static isOffDeck(id: number, type: RoomType, layout: RoomTypeLayout): boolean {
+        const requiredDeck = layout.getRequiredDeck?.(type);
+        return requiredDeck !== undefined && layout.decks.get(id) !== requiredDeck;
+    }
+
+    /**
+     * A room's deck position score plus its adjacency scores with every linked room
+     */
+    private static getRoomScore(id: number, type: RoomType, assignments: Map<number, RoomType>, layout: RoomTypeLayout): number {
+        let score = RoomPlacementRuleEngine.getDeckPositionScore(type, layout.shipType, layout.totalDecks, layout.decks.get(id)!);
+
+        for (const neighbourId of layout.adjacency.get(id) ?? []) {
+            const neighbourType = assignments.get(neighbourId);
+            if (neighbourType) {
+                score += RoomPlacementRuleEngine.getAdjacencyScore(type, neighbourType, layout.shipType);
+            }
+        }
+
+        return score;
+    }
+}
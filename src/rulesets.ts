@@ -0,0 +1,105 @@
+import type { ShipTypeDefinition } from './types';
+import type { Dice } from './dice';
+
+export type RulesetName = 'shipbreakers' | 'dead-planet';
+
+/**
+ * The rules a game uses to size a ship from its ship type
+ * The generator rolls the deck count once, then the room count once per deck.
+ */
+export interface GenerationRuleset {
+    name: RulesetName;
+    label: string;
+    description: string;
+    rollDeckCount(shipType: ShipTypeDefinition, dice: Dice): number;
+    rollRoomCount(shipType: ShipTypeDefinition, dice: Dice): number;
+}
+
+/**
+ * Shipbreakers: decks come from the ship type's dice, and each deck's
+ * rooms from a weighted d21 that favours small decks
+ */
+const SHIPBREAKERS: GenerationRuleset = {
+    name: 'shipbreakers',
+    label: 'Shipbreakers',
+    description: 'Decks from the ship type\'s dice, 1-6 rooms per deck (fewer is more likely)',
+
+    rollDeckCount(shipType, dice) {
+        if (!shipType.decks) {
+            throw new Error(`Ship type "${shipType.name}" has no "decks" roll for the Shipbreakers ruleset`);
+        }
+        return dice.rollFromNotation(shipType.decks).total;
+    },
+
+    /**
+     * Returns a weighted random room count where:
+     * - 1 room is most likely (6/21 probability, ~28.6%)
+     * - 2 rooms is next most likely (5/21 probability, ~23.8%)
+     * - 3 rooms is next (4/21 probability, ~19.0%)
+     * - 4 rooms is next (3/21 probability, ~14.3%)
+     * - 5 rooms is next (2/21 probability, ~9.5%)
+     * - 6 rooms is least likely (1/21 probability, ~4.8%)
+     */
+    rollRoomCount(_shipType, dice) {
+        // Roll a d21 (21-sided die)
+        const roll = dice.d(21);
+
+        // Map the d21 roll to our weighted room counts:
+        if (roll <= 6) return 1;       // 6/21 probability (~28.6%)
+        if (roll <= 11) return 2;      // 5/21 probability (~23.8%)
+        if (roll <= 15) return 3;      // 4/21 probability (~19.0%)
+        if (roll <= 18) return 4;      // 3/21 probability (~14.3%)
+        if (roll <= 20) return 5;      // 2/21 probability (~9.5%)
+        return 6;                      // 1/21 probability (~4.8%)
+    }
+};
+
+/**
+ * Dead Planet: decks are picked evenly from the ship type's range,
+ * and each deck's rooms come from its rooms-per-deck dice
+ */
+const DEAD_PLANET: GenerationRuleset = {
+    name: 'dead-planet',
+    label: 'Dead Planet',
+    description: 'Decks from the ship type\'s deck range, rooms per deck from its rooms-per-deck dice',
+
+    rollDeckCount(shipType, dice) {
+        const { minDecks, maxDecks } = shipType;
+        if (minDecks === undefined || maxDecks === undefined) {
+            throw new Error(`Ship type "${shipType.name}" has no "minDecks" and "maxDecks" for the Dead Planet ruleset`);
+        }
+        return minDecks + dice.d(maxDecks - minDecks + 1) - 1;
+    },
+
+    rollRoomCount(shipType, dice) {
+        if (!shipType.roomsPerDeck) {
+            throw new Error(`Ship type "${shipType.name}" has no "roomsPerDeck" roll for the Dead Planet ruleset`);
+        }
+        return Math.max(1, dice.rollFromNotation(shipType.roomsPerDeck).total);
+    }
+};
+
+export const RULESETS: Record<RulesetName, GenerationRuleset> = {
+    'shipbreakers': SHIPBREAKERS,
+    'dead-planet': DEAD_PLANET
+};
+
+/**
+ * Utility class for looking up generation rulesets
+ */
+export class Rulesets {
+    static isRulesetName(name: string): name is RulesetName {
+        return Object.prototype.hasOwnProperty.call(RULESETS, name);
+    }
+
+    static getNames(): RulesetName[] {
+        return Object.keys(RULESETS) as RulesetName[];
+    }
+
+    /**
+     * Gets a ruleset by name, defaulting to Shipbreakers
+     */
+    static get(name: RulesetName | undefined): GenerationRuleset {
+        return RULESETS[name ?? 'shipbreakers'];
+    }
+}
@@ -0,0 +1,110 @@
+/**
+ * A font file to embed in an exported map
+ */
+export interface EmbeddedFont {
+  family: string;
+  data: Uint8Array;
+  format: 'truetype' | 'opentype' | 'woff' | 'woff2';
+  weight?: 'normal' | 'bold';
+}
+
+/**
+ * Options for a standalone SVG
+ */
+export interface StandaloneSvgOptions {
+  fonts?: EmbeddedFont[];   // Embedded, and used first for all text on the map
+  fontFamilies?: string[];  // Used after any embedded fonts, but not embedded: the viewer needs them installed
+  background?: string;      // Fill behind the map (defaults to white, as on the page)
+}
+
+// Used after any embedded fonts, or when there are none
+const FALLBACK_FONT_FAMILY = "'Zen Kaku Gothic Antique', sans-serif";
+
+const FONT_MIME_TYPES: Record<EmbeddedFont['format'], string> = {
+  truetype: 'font/ttf',
+  opentype: 'font/otf',
+  woff: 'font/woff',
+  woff2: 'font/woff2'
+};
+
+/**
+ * Utility class for turning a rendered map into files that stand on their own
+ * These work on SVG markup, so they run the same in the browser and in Node.
+ */
+export class ShipExport {
+  /**
+   * Makes a rendered map into a self-contained SVG document: it declares its namespace
+   * and size, carries its own fonts and styles, and draws its own background
+   * @param markup The map's SVG markup, as drawn by HeadlessRenderer or SquareCellRenderer
+   * @throws Error if the markup isn't an SVG with a width and height
+   */
+  static toStandaloneSvg(markup: string, options: StandaloneSvgOptions = {}): string {
+    const { fonts = [], fontFamilies = [], background = 'white' } = options;
+    const { width, height } = this.getSize(markup);
+    const openTag = markup.match(/<svg\b[^>]*>/)![0];
+
+    const families = Array.from(new Set([...fonts.map(font => font.family), ...fontFamilies].map(family => `'${family}'`)));
+    const fontFamily = [...families, FALLBACK_FONT_FAMILY].join(', ');
+
+    // Keep the map's own attributes, apart from the ones the page gave it
+    const attributes = openTag
+      .replace(/^<svg|\/?>$/g, '')
+      .replace(/\s(xmlns|viewBox|font-family|id|class|style)="[^"]*"/g, '')
+      .trim();
+
+    const fontFaces = fonts.map(font => `@font-face {
+  font-family: '${font.family}';
+  font-weight: ${font.weight ?? 'normal'};
+  src: url(data:${FONT_MIME_TYPES[font.format]};base64,${this.toBase64(font.data)}) format('${font.format}');
+}`);
+
+    const style = [...fontFaces, `text { font-family: ${fontFamily}; }`].join('\n');
+
+    // The font family is also set on the root, for renderers that don't read @font-face
+    return '<?xml version="1.0" encoding="UTF-8"?>\n' +
+      `<svg xmlns="http://www.w3.org/2000/svg" ${attributes} viewBox="0 0 ${width} ${height}" font-family="${fontFamily.replace(/'/g, '&apos;')}">` +
+      `<style>\n${style}\n</style>` +
+      `<rect width="${width}" height="${height}" fill="${background}" />` +
+      markup.slice(markup.indexOf(openTag) + openTag.length);
+  }
+
+  /**
+   * Reads the size of a map from its SVG markup, in CSS pixels (96 to the inch)
+   * @throws Error if the markup isn't an SVG with a width and height
+   */
+  static getSize(markup: string): { width: number; height: number } {
+    const openTag = markup.match(/<svg\b[^>]*>/)?.[0];
+    if (!openTag) {
+      throw new Error('Map could not be exported: the markup has no <svg> element');
+    }
+
+    const read = (attribute: string) => Number(openTag.match(new RegExp(`\\s${attribute}="([\\d.]+)"`))?.[1]);
+    const width = read('width');
+    const height = read('height');
+    if (!(width > 0) || !(height > 0)) {
+      throw new Error('Map could not be exported: render the ship before exporting it');
+    }
+
+    return { width, height };
+  }
+
+  /**
+   * Gets a file name for a ship, e.g. "the-iron-widow-1718038347"
+   */
+  static getFileName(shipName: string, seed: string): string {
+    return [shipName, seed]
+      .join(' ')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '');
+  }
+
+  private static toBase64(data: Uint8Array): string {
+    // Convert in chunks so large fonts don't overflow the argument list
+    let binary = '';
+    for (let i = 0; i < data.length; i += 0x8000) {
+      binary += String.fromCharCode(...data.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+  }
+}
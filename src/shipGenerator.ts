@@ -3,12 +3,24 @@ import type {
     RoomNode,
     RoomLink,
     GenerationConfig,
-    RoomType
+    RoomFootprint,
+    RoomType,
+    LinkType,
+    ConnectivityRepair,
+    ShipTypeDefinition
 } from './types';
 import { Dice } from './dice';
+import type { PRNG } from './prng';
+import { RollLog } from './rollLog';
 import type { GridCell } from './AStarGrid';
 import { DUNGEON_CONSTANTS } from './constants';
 import { RoomAssigner } from './roomAssignment';
+import { RoomFootprints } from './roomFootprint';
+import { RoomGenerator } from './roomGenerator';
+import type { RoomPlacementExplanation } from './roomTypeOptimizer';
+import { HullTemplates, type HullSegment } from './hullTemplates';
+import { ExteriorFeatures } from './exteriorFeatures';
+import { Rulesets } from './rulesets';
 
 /**
  * ShipGenerator - Creates ship layouts with rooms in a grid pattern
@@ -17,23 +29,40 @@ import { RoomAssigner } from './roomAssignment';
  */
 export class ShipGenerator {
     private cellSize: number;
-    private shipWidth: number = 11; // Fixed width of 11 cells
+    private shipWidth: number = DUNGEON_CONSTANTS.SHIP_WIDTH; // Width in cells, set per generation
     private shipHeight: number = 0;
     private graph: DungeonGraph = { rooms: [], links: [] };
-    private grid: boolean[][] = []; // true if cell is occupied
+    private grid: (RoomNode | null)[][] = []; // room occupying each cell, null if empty
+    private hullMask: boolean[][] = []; // true if rooms may be placed in the cell
+    private corridors: RoomNode[] = []; // Spine and hallway cells, added to the graph after the rooms
     private shipTypeName: string = "Default"; // Store the ship type name for room type assignment
-    private roomTypes: RoomType[] = []; // Store assigned room types
+    private roomTypes: RoomType[] = []; // Room types rolled before the layout, to size each room's footprint
+    private roomTypeExplanations: RoomPlacementExplanation[] = []; // Why each room got its type, once placed
+    private rng: PRNG;
+    private log: RollLog; // Every roll made by this generator
+    private dice: Dice; // Rolls for the layout, including deck count and width
+    private roomTypeDice: Dice; // Rolls for the room types
 
-    constructor() {
+    /**
+     * @param rng The generator for this ship; the layout and room types
+     * are rolled from its "layout" and "room-types" streams
+     * @param log Where to record the rolls; pass a shared log to keep other
+     * rolls (such as the lore tables) in the same audit trail
+     */
+    constructor(rng: PRNG, log: RollLog = new RollLog()) {
         this.cellSize = DUNGEON_CONSTANTS.CELL_SIZE;
+        this.rng = rng;
+        this.log = log;
+        this.dice = new Dice(rng.fork('layout'), log, 'layout');
+        this.roomTypeDice = new Dice(rng.fork('room-types'), log, 'room-types');
     }
 
     /**
      * Creates a room at the specified grid coordinates
      */
-    private createRoom(id: number, x: number, y: number, type?: RoomType): RoomNode {
+    private createRoom(id: number, x: number, y: number, type?: RoomType, footprint?: RoomFootprint): RoomNode {
         // Use the provided room type or get the next one from the roomTypes array
-        const roomType = type || (this.roomTypes.length > id - 1 ? this.roomTypes[id - 1] : undefined);
+        const roomType = type || this.getRoomTypeForId(id);
 
         // Generate a name based on room type if available
         const roomName = roomType ? `${roomType} ${id}` : `Room ${id}`;
@@ -45,9 +74,32 @@ export class ShipGenerator {
             y: y * this.cellSize,
             name: roomName,
             type: roomType,
+            footprint: footprint || { width: 1, height: 1 },
         };
     }
 
+    /**
+     * Creates a corridor running along a deck from the specified grid coordinates.
+     * Corridors get a temporary negative id until the rooms have been numbered.
+     */
+    private createCorridor(x: number, y: number, width: number, name: string): RoomNode {
+        return {
+            id: -(this.corridors.length + 1),
+            x: x * this.cellSize,
+            y: y * this.cellSize,
+            name,
+            kind: 'corridor',
+            footprint: { width, height: 1 },
+        };
+    }
+
+    /**
+     * Gets the pre-generated room type for a room id, if one exists
+     */
+    private getRoomTypeForId(id: number): RoomType | undefined {
+        return this.roomTypes.length > id - 1 ? this.roomTypes[id - 1] : undefined;
+    }
+
     /**
      * Checks if a grid position is occupied
      */
@@ -57,18 +109,87 @@ export class ShipGenerator {
             return true;
         }
 
+        // Cells outside the hull can never hold a room
+        if (!this.hullMask[y][x]) {
+            return true;
+        }
+
+        return this.grid[y][x] !== null;
+    }
+
+    /**
+     * Checks if a footprint fits at a grid position without overlapping other rooms
+     */
+    private canPlaceFootprint(x: number, y: number, footprint: RoomFootprint): boolean {
+        for (let dy = 0; dy < footprint.height; dy++) {
+            for (let dx = 0; dx < footprint.width; dx++) {
+                if (this.isPositionOccupied(x + dx, y + dy)) return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Finds the largest footprint, no bigger than the one requested, that fits at a grid position.
+     * Height is reduced before width so the room keeps running along the deck.
+     * @param direction 1 if the room extends right from x, -1 if it extends left
+     * @returns The footprint that fits, or null if the position itself is occupied
+     */
+    private fitFootprint(x: number, y: number, footprint: RoomFootprint, direction: 1 | -1 = 1): RoomFootprint | null {
+        for (let width = footprint.width; width >= 1; width--) {
+            const left = direction > 0 ? x : x - width + 1;
+            for (let height = footprint.height; height >= 1; height--) {
+                if (this.canPlaceFootprint(left, y, { width, height })) {
+                    return { width, height };
+                }
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Marks every cell covered by a room as occupied by it
+     */
+    private occupyCells(room: RoomNode): void {
+        for (const cell of RoomFootprints.getCells(room, this.cellSize)) {
+            this.grid[cell.y][cell.x] = room;
+        }
+    }
+
+    /**
+     * Gets the room occupying a grid position, if any
+     */
+    private getRoomAt(x: number, y: number): RoomNode | null {
+        if (x < 0 || x >= this.shipWidth || y < 0 || y >= this.shipHeight) {
+            return null;
+        }
         return this.grid[y][x];
     }
 
     /**
-     * Creates a link between two rooms
+     * Creates a link between two rooms.
+     * If the rooms share a wall the door is placed on the middle shared edge.
      */
     private createLink(
         source: RoomNode,
         target: RoomNode,
-        type: 'door' | 'secondary'
+        type: LinkType
     ): RoomLink {
-        return { source, target, type };
+        const edges = RoomFootprints.getSharedEdges(source, target, this.cellSize);
+        const door = edges.length > 0 ? edges[Math.floor(edges.length / 2)] : undefined;
+
+        return door ? { source, target, type, door } : { source, target, type };
+    }
+
+    /**
+     * Checks whether two rooms are already linked
+     */
+    private isLinked(room1: RoomNode, room2: RoomNode): boolean {
+        return this.graph.links.some(
+            link =>
+                (link.source.id === room1.id && link.target.id === room2.id) ||
+                (link.source.id === room2.id && link.target.id === room1.id)
+        );
     }
 
     /**
@@ -102,29 +223,40 @@ export class ShipGenerator {
             roomsPerDeck = 0,
             roomsPerDeckArray = [],
             shipTypeName = this.shipTypeName, // Use the ship type name from config or instance
+            hullTemplate,
+            shipWidth = Math.ceil(dungeonWidth / this.cellSize) || DUNGEON_CONSTANTS.SHIP_WIDTH,
+            corridors = true,
         } = config;
 
         // Store the ship type name for room type assignment
         this.shipTypeName = shipTypeName;
 
-        // Pre-generate room types based on the ship type
-        this.roomTypes = RoomAssigner.assignRoomTypesForShip(this.shipTypeName, numRooms);
+        // Pre-generate room types based on the ship type. These pick each room's footprint;
+        // the rooms get their final types once the layout is known (see below)
+        this.roomTypes = this.log.within('room types', () =>
+            RoomAssigner.assignRoomTypesForShip(this.shipTypeName, numRooms, this.roomTypeDice).roomTypes
+        );
 
-        // Store ship dimensions - height is still dynamic, width is fixed at 11
-        // this.shipWidth is now defined as a fixed 11 cells at class level
+        // Store ship dimensions - height comes from the deck count, width from the config,
+        // widened if the hull would leave no room beside the spine
+        this.shipWidth = Math.max(HullTemplates.getMinWidth(hullTemplate), Math.floor(shipWidth));
         this.shipHeight = Math.ceil(dungeonHeight / this.cellSize);
 
         // Initialize grid with all cells unoccupied
         this.grid = Array(this.shipHeight)
             .fill(null)
-            .map(() => Array(this.shipWidth).fill(false));
+            .map(() => Array(this.shipWidth).fill(null));
+
+        // Constrain room placement to the hull silhouette, if one was selected
+        this.hullMask = HullTemplates.getMask(hullTemplate, this.shipWidth, this.shipHeight);
 
         this.graph = {
             rooms: [],
             links: [],
+            width: this.shipWidth,
+            height: this.shipHeight,
         };
-
-        let roomId = 1;
+        this.corridors = [];
 
         // If we want a structured ship with multiple rooms per deck
         if (numDecks > 0 && (roomsPerDeck > 0 || roomsPerDeckArray.length > 0)) {
@@ -134,183 +266,761 @@ export class ShipGenerator {
             // Define a central "spine" position that will be consistent across all decks
             const spineX = Math.floor(this.shipWidth / 2);
 
+            // Reserve the spine on every deck before any rooms are placed, so
+            // tall rooms can't extend across it. The spine runs through open
+            // space too, joining hull sections that would otherwise be separate.
+            if (corridors) {
+                // A lift runs through part of the spine, ladders climb the rest
+                const lift = this.log.within('lift span', () => this.pickLiftSpan(numDecks));
+
+                for (let deck = 0; deck < numDecks; deck++) {
+                    const spine = this.createCorridor(spineX, deck, 1, 'Access Spine');
+                    this.corridors.push(spine);
+                    this.occupyCells(spine);
+
+                    const spineAbove = this.getRoomAt(spineX, deck - 1);
+                    if (spineAbove) {
+                        const inLift = lift !== null && deck > lift.top && deck <= lift.bottom;
+                        this.graph.links.push(this.createLink(spineAbove, spine, inLift ? 'lift' : 'ladder'));
+                    }
+                }
+            }
+
+            // Rooms that don't fit on their deck move down to the next one
+            let carriedRooms = 0;
+
             for (let deck = 0; deck < numDecks; deck++) {
                 const deckY = deck; // Start at y=0 (no bridge at the top)
+                const placedBefore = this.graph.rooms.length;
+
+                if (corridors) {
+                    const roomsThisDeck = (roomsPerDeckArray[deck] !== undefined
+                        ? roomsPerDeckArray[deck]
+                        : roomsPerDeck) + carriedRooms;
+                    this.log.within(`deck ${deck + 1}`, () =>
+                        this.layoutCorridorDeck(roomsThisDeck, deckY, numDecks, spineX)
+                    );
+                    carriedRooms = roomsThisDeck - (this.graph.rooms.length - placedBefore);
+                    continue;
+                }
+
+                // Split the deck into runs of hull cells, closest to the spine first
+                const segments = HullTemplates.getSegments(this.hullMask[deckY])
+                    .sort((a, b) => this.getSegmentDistance(a, spineX) - this.getSegmentDistance(b, spineX));
+                const hullCells = segments.reduce((sum, segment) => sum + segment.end - segment.start + 1, 0);
 
                 // Get number of rooms for this deck - either from array or use default
-                const roomsThisDeck = roomsPerDeckArray[deck] !== undefined
+                // and make sure they fit in the hull cells available on this deck
+                const roomsRolled = (roomsPerDeckArray[deck] !== undefined
                     ? roomsPerDeckArray[deck]
-                    : Math.min(roomsPerDeck, this.shipWidth - 2); // Make sure rooms fit in width
-
-                // First, determine a starting position that ensures:
-                // 1. At least one room will be at the spine (position 5)
-                // 2. All rooms fit within the grid (0-10)
-                // 3. Rooms can start at position 0 or end at position 10
-
-                let finalStartX;
-
-                // Create a range of possible starting positions
-                // The minimum starting position is 0
-                // The maximum starting position must ensure all rooms fit and at least one room is at the spine
-                const minStartX = 0;
-                const maxStartX = this.shipWidth - roomsThisDeck; // For 6 rooms, this is 5 (ensuring they fit in the grid)
-
-                // Find the range of starting positions that would place a room at the spine
-                // For example, with 6 rooms, starting at position 0 would place rooms at 0,1,2,3,4,5
-                // Starting at position 5 would place rooms at 5,6,7,8,9,10
-                const minStartForSpine = Math.max(0, spineX - (roomsThisDeck - 1));
-                const maxStartForSpine = spineX;
-
-                // The actual range is the intersection of these two ranges
-                const actualMinStart = Math.max(minStartX, minStartForSpine);
-                const actualMaxStart = Math.min(maxStartX, maxStartForSpine);
-
-                // Randomly choose a starting position within this range
-                // This ensures we meet all our requirements while introducing randomness
-                if (actualMinStart === actualMaxStart) {
-                    // Only one possible starting position
-                    finalStartX = actualMinStart;
-                } else {
-                    // Calculate how many possible positions we have
-                    const possiblePositions = actualMaxStart - actualMinStart + 1;
-                    // Choose a random offset within the range
-                    const randomOffset = Dice.d(possiblePositions) - 1;
-                    finalStartX = actualMinStart + randomOffset;
-                }
+                    : Math.min(roomsPerDeck, this.shipWidth - 2)) + carriedRooms;
+                const roomsThisDeck = Math.min(roomsRolled, hullCells);
 
-                // Calculate the ending position based on the starting position
-                const endX = finalStartX + roomsThisDeck - 1;
-
-                // Place rooms side by side on this deck
+                // Share the rooms between the segments, one at a time
+                const roomsPerSegment = segments.map(() => 0);
                 for (let i = 0; i < roomsThisDeck; i++) {
-                    const roomX = finalStartX + i;
-
-                    // Skip if position is already occupied or out of bounds
-                    if (this.isPositionOccupied(roomX, deckY)) continue;
-
-                    // Create the room
-                    const newRoom = this.createRoom(roomId++, roomX, deckY);
-                    this.graph.rooms.push(newRoom);
-                    this.grid[deckY][roomX] = true;
-
-                    // Connect to room to the left if it exists
-                    if (i > 0) {
-                        const leftRoom = this.graph.rooms.find(r =>
-                            Math.floor(r.x / this.cellSize) === roomX - 1 &&
-                            Math.floor(r.y / this.cellSize) === deckY
-                        );
-                        if (leftRoom) {
-                            this.graph.links.push(this.createLink(leftRoom, newRoom, 'door'));
-                        }
+                    const index = i % segments.length;
+                    const segment = segments[index];
+                    if (roomsPerSegment[index] < segment.end - segment.start + 1) {
+                        roomsPerSegment[index]++;
                     }
+                }
 
-                    // Connect to room on the deck above if it exists
-                    if (deck > 0) {
-                        // First try to connect to the room directly above
-                        const roomsAbove = this.graph.rooms.filter(r =>
-                            Math.floor(r.x / this.cellSize) === roomX &&
-                            Math.floor(r.y / this.cellSize) === deckY - 1
-                        );
-
-                        if (roomsAbove.length > 0) {
-                            // Connect to the room directly above
-                            this.graph.links.push(this.createLink(roomsAbove[0], newRoom, 'door'));
-                        }
-                        // If this is the room at or near the spine position, ensure vertical connectivity
-                        else if (Math.abs(roomX - spineX) <= 1) {
-                            // Find rooms on the deck above, preferring ones near the spine
-                            const centralRoomsAbove = this.graph.rooms.filter(r =>
-                                Math.floor(r.y / this.cellSize) === deckY - 1
-                            ).sort((a, b) => {
-                                // Sort by distance to the spine
-                                const distA = Math.abs(Math.floor(a.x / this.cellSize) - spineX);
-                                const distB = Math.abs(Math.floor(b.x / this.cellSize) - spineX);
-                                return distA - distB;
-                            });
-
-                            if (centralRoomsAbove.length > 0) {
-                                // Connect to the room closest to the spine on the deck above
-                                this.graph.links.push(this.createLink(centralRoomsAbove[0], newRoom, 'door'));
-                            }
+                this.log.within(`deck ${deck + 1}`, () => {
+                    segments.forEach((segment, index) => {
+                        if (roomsPerSegment[index] > 0) {
+                            this.layoutDeckSegment(segment, roomsPerSegment[index], deckY, numDecks, spineX);
                         }
-                    }
-                }
+                    });
+                });
+                carriedRooms = roomsRolled - (this.graph.rooms.length - placedBefore);
+            }
+
+            // Whatever is still left over didn't fit anywhere in the hull
+            if (carriedRooms > 0) {
+                this.graph.unplacedRooms = carriedRooms;
+            }
+
+            if (corridors) {
+                this.log.within('deck connectors', () => this.addDeckConnectors());
             }
         } else {
             // Use the original algorithm if numDecks and roomsPerDeck aren't specified
             // ... [existing code]
         }
 
-        // Add secondary links (between rooms that aren't already connected)
-        const numSecondaryLinks =
-            minSecondaryLinks + Dice.d(maxSecondaryLinks - minSecondaryLinks + 1) - 1;
-
-        // Add secondary links between rooms that are adjacent but not connected
-        for (let i = 0; i < numSecondaryLinks && i < this.graph.rooms.length * 2; i++) {
-            const room1 = this.graph.rooms[Dice.d(this.graph.rooms.length) - 1];
-
-            // Get grid coordinates of the room
-            const room1X = Math.floor(room1.x / this.cellSize);
-            const room1Y = Math.floor(room1.y / this.cellSize);
+        this.log.within('secondary links', () => {
+            // Add secondary links (between rooms that aren't already connected)
+            const numSecondaryLinks =
+                minSecondaryLinks + this.dice.d(maxSecondaryLinks - minSecondaryLinks + 1) - 1;
 
-            // Find adjacent rooms by grid position
-            const adjacentRooms = this.graph.rooms.filter(room => {
-                const roomX = Math.floor(room.x / this.cellSize);
-                const roomY = Math.floor(room.y / this.cellSize);
+            // Add secondary links between rooms that are adjacent but not connected
+            // (corridors aren't in the graph yet, so only rooms are considered)
+            for (let i = 0; i < numSecondaryLinks && i < this.graph.rooms.length * 2; i++) {
+                const room1 = this.graph.rooms[this.dice.d(this.graph.rooms.length) - 1];
 
-                // Check if adjacent (not diagonal)
-                return (
+                // Find adjacent rooms by shared walls
+                const adjacentRooms = this.graph.rooms.filter(room =>
                     room.id !== room1.id &&
-                    ((Math.abs(roomX - room1X) === 1 && roomY === room1Y) ||
-                        (Math.abs(roomY - room1Y) === 1 && roomX === room1X))
+                    RoomFootprints.areAdjacent(room1, room, this.cellSize)
                 );
-            });
 
-            if (adjacentRooms.length > 0) {
-                const room2 = adjacentRooms[Dice.d(adjacentRooms.length) - 1];
+                if (adjacentRooms.length > 0) {
+                    const room2 = adjacentRooms[this.dice.d(adjacentRooms.length) - 1];
 
-                // Check if they're already connected
-                const alreadyConnected = this.graph.links.some(
-                    link =>
-                        (link.source.id === room1.id && link.target.id === room2.id) ||
-                        (link.source.id === room2.id && link.target.id === room1.id)
-                );
+                    // Check if they're already connected
+                    if (!this.isLinked(room1, room2)) {
+                        this.graph.links.push(this.createLink(room1, room2, 'secondary'));
+                    }
+                }
+            }
+        });
+
+        // Number the corridors after the rooms, so room ids still match their room types
+        this.corridors.forEach((corridor, index) => {
+            corridor.id = this.graph.rooms.length + index + 1;
+            corridor.name = `${corridor.name} ${corridor.id}`;
+        });
+        this.graph.rooms.push(...this.corridors);
+
+        // Join up any parts of the ship the layout left disconnected
+        this.graph.repairs = this.repairConnectivity();
+
+        // Place the room types now the decks and links are known, so rooms that must be on
+        // the top or bottom deck go there, and the placement rules are optimised for the whole
+        // ship. This also notes any room type constraints the ship can't meet.
+        const application = new RoomGenerator(this.rng.fork('room-placement'), this.log)
+            .applyRoomTypes(this.graph, this.shipTypeName);
+        this.graph = application.graph;
+        this.roomTypeExplanations = application.explanations;
+
+        // Place airlocks, docking collars and escape pods on the outside of the hull
+        this.graph.exteriorFeatures = this.log.within('exterior features', () =>
+            ExteriorFeatures.placeFeatures(this.graph, this.shipTypeName, this.cellSize, this.dice)
+        );
+
+        // Attach every roll made so far, so the ship can be explained and replayed
+        this.graph.rollLog = this.log.getEvents();
+
+        return this.graph;
+    }
+
+    /**
+     * Lays out one deck around the access spine.
+     * Rooms are shared between the two sides of the spine, and each side
+     * is reached through a hallway running out from the spine.
+     *
+     * @param roomCount The number of rooms to place on this deck
+     * @param deckY The deck (grid row) being laid out
+     * @param numDecks The total number of decks
+     * @param spineX The central spine column
+     */
+    private layoutCorridorDeck(roomCount: number, deckY: number, numDecks: number, spineX: number): void {
+        const leftCapacity = this.getSideCapacity(deckY, spineX, -1);
+        const rightCapacity = this.getSideCapacity(deckY, spineX, 1);
 
-                if (!alreadyConnected) {
-                    this.graph.links.push(this.createLink(room1, room2, 'secondary'));
+        // Split the rooms at random, moving any that don't fit to the other side
+        let leftCount = Math.min(this.dice.within('rooms left of the spine', () => this.dice.d(roomCount + 1)) - 1, leftCapacity);
+        const rightCount = Math.min(roomCount - leftCount, rightCapacity);
+        leftCount = Math.min(roomCount - rightCount, leftCapacity);
+
+        if (leftCount > 0) this.layoutCorridorSide(leftCount, deckY, numDecks, spineX, -1);
+        if (rightCount > 0) this.layoutCorridorSide(rightCount, deckY, numDecks, spineX, 1);
+    }
+
+    /**
+     * Picks the decks the lift shaft runs between.
+     * There is at most one lift, spanning at least MIN_LIFT_DECKS decks.
+     * @returns The top and bottom decks served by the lift, or null if the ship is too short for one
+     */
+    private pickLiftSpan(numDecks: number): { top: number; bottom: number } | null {
+        if (numDecks < DUNGEON_CONSTANTS.MIN_LIFT_DECKS) return null;
+
+        const span = DUNGEON_CONSTANTS.MIN_LIFT_DECKS + this.dice.d(numDecks - DUNGEON_CONSTANTS.MIN_LIFT_DECKS + 1) - 1;
+        const top = this.dice.d(numDecks - span + 1) - 1;
+
+        return { top, bottom: top + span - 1 };
+    }
+
+    /**
+     * Adds hatches and maintenance shafts between rooms stacked on top of each other.
+     * The outermost rooms on each side of the ship may be joined by a maintenance
+     * shaft running along the hull (at most one per side); other stacked rooms
+     * get a floor hatch one time in four.
+     */
+    private addDeckConnectors(): void {
+        const stackedPairs: Array<{ upper: RoomNode; lower: RoomNode }> = [];
+
+        for (const upper of this.graph.rooms) {
+            for (const lower of this.graph.rooms) {
+                const stacked = RoomFootprints.getSharedEdges(upper, lower, this.cellSize)
+                    .some(edge => edge.side === 'south');
+                if (stacked && !this.isLinked(upper, lower)) {
+                    stackedPairs.push({ upper, lower });
                 }
             }
         }
 
-        return this.graph;
+        for (const direction of [-1, 1] as const) {
+            const outboardPairs = stackedPairs.filter(pair =>
+                this.isOutboard(pair.upper, direction) && this.isOutboard(pair.lower, direction)
+            );
+
+            if (outboardPairs.length > 0) {
+                const { upper, lower } = outboardPairs[this.dice.d(outboardPairs.length) - 1];
+                this.graph.links.push(this.createLink(upper, lower, 'maintenance-shaft'));
+            }
+        }
+
+        for (const { upper, lower } of stackedPairs) {
+            if (!this.isLinked(upper, lower) && this.dice.d(4) === 1) {
+                this.graph.links.push(this.createLink(upper, lower, 'hatch'));
+            }
+        }
     }
 
     /**
-     * Validates that all rooms in the ship are connected
+     * Checks whether a room sits against the outer hull on one side of the spine
+     * @param direction -1 for the left side of the ship, 1 for the right
      */
-    validateDungeon(dungeon: DungeonGraph): boolean {
-        // Simple validation to ensure all rooms are connected
-        const visited = new Set<number>();
-        const stack = [dungeon.rooms[0]];
-
-        while (stack.length > 0) {
-            const current = stack.pop()!;
-            visited.add(current.id);
-
-            // Find all connected rooms through links
-            dungeon.links.forEach((link) => {
-                if (link.source.id === current.id && !visited.has(link.target.id)) {
-                    stack.push(link.target);
-                } else if (
-                    link.target.id === current.id &&
-                    !visited.has(link.source.id)
-                ) {
-                    stack.push(link.source);
+    private isOutboard(room: RoomNode, direction: 1 | -1): boolean {
+        const bounds = RoomFootprints.getBounds(room, this.cellSize);
+        const spineX = Math.floor(this.shipWidth / 2);
+        const onSide = direction > 0 ? bounds.x > spineX : bounds.x + bounds.width - 1 < spineX;
+        const x = direction > 0 ? bounds.x + bounds.width : bounds.x - 1;
+
+        return onSide && (x < 0 || x >= this.shipWidth || !this.hullMask[bounds.y][x]);
+    }
+
+    /**
+     * Counts the free hull cells on one side of the spine that a hallway can reach.
+     * Only the first run of hull cells counts; cells covered by tall rooms from the
+     * deck above are stepped over.
+     */
+    private getSideCapacity(deckY: number, spineX: number, direction: 1 | -1): number {
+        let x = spineX + direction;
+        let capacity = 0;
+
+        // Skip the open space between the spine and the hull
+        while (x >= 0 && x < this.shipWidth && !this.hullMask[deckY][x]) {
+            x += direction;
+        }
+
+        for (; x >= 0 && x < this.shipWidth && this.hullMask[deckY][x]; x += direction) {
+            if (this.grid[deckY][x] === null) capacity++;
+        }
+
+        return capacity;
+    }
+
+    /**
+     * Places a hallway and a strip of rooms on one side of the spine
+     *
+     * @param roomCount The number of rooms to place on this side
+     * @param deckY The deck (grid row) being laid out
+     * @param numDecks The total number of decks
+     * @param spineX The central spine column
+     * @param direction -1 to work left from the spine, 1 to work right
+     */
+    private layoutCorridorSide(
+        roomCount: number,
+        deckY: number,
+        numDecks: number,
+        spineX: number,
+        direction: 1 | -1
+    ): void {
+        const isFree = (x: number) => x >= 0 && x < this.shipWidth && this.grid[deckY][x] === null;
+        const hallwayCells: number[] = [];
+        let x = spineX + direction;
+
+        // The hallway bridges any open space between the spine and the hull...
+        while (isFree(x) && !this.hullMask[deckY][x]) {
+            hallwayCells.push(x);
+            x += direction;
+        }
+
+        // ...then runs a little way into the hull if there's room to spare
+        let freeCells = 0;
+        while (!this.isPositionOccupied(x + direction * freeCells, deckY)) {
+            freeCells++;
+        }
+        const spareCells = freeCells - roomCount;
+        const hallwayLength = spareCells > 0
+            ? Math.min(this.dice.within('hallway length', () => this.dice.d(3)) - 1, spareCells)
+            : 0;
+        for (let i = 0; i < hallwayLength; i++) {
+            hallwayCells.push(x);
+            x += direction;
+        }
+
+        let previous = this.grid[deckY][spineX]!;
+
+        if (hallwayCells.length > 0) {
+            const hallway = this.createCorridor(Math.min(...hallwayCells), deckY, hallwayCells.length, 'Hallway');
+            this.corridors.push(hallway);
+            this.occupyCells(hallway);
+            this.graph.links.push(this.createLink(previous, hallway, 'door'));
+            previous = hallway;
+        }
+
+        let roomId = this.graph.rooms.length + 1;
+
+        for (let i = 0; i < roomCount; i++) {
+            // Step over tall rooms from the deck above, linking through them
+            // so the rooms beyond stay connected to the hallway
+            let blockingRoom = this.getRoomAt(x, deckY);
+            while (blockingRoom) {
+                if (!this.isLinked(previous, blockingRoom)) {
+                    this.graph.links.push(this.createLink(previous, blockingRoom, 'door'));
                 }
-            });
+                previous = blockingRoom;
+
+                const bounds = RoomFootprints.getBounds(blockingRoom, this.cellSize);
+                x = direction > 0 ? bounds.x + bounds.width : bounds.x - 1;
+                blockingRoom = this.getRoomAt(x, deckY);
+            }
+
+            // Count the free hull cells left on this side
+            let maxWidth = 0;
+            while (!this.isPositionOccupied(x + direction * maxWidth, deckY)) {
+                maxWidth++;
+            }
+            if (maxWidth === 0) break;
+
+            const pickedFootprint = this.dice.within(`footprint for room ${roomId}`, () =>
+                RoomFootprints.pickFootprint(this.getRoomTypeForId(roomId), maxWidth, numDecks - deckY, this.dice)
+            );
+            const footprint = this.fitFootprint(x, deckY, pickedFootprint, direction)!;
+            const roomX = direction > 0 ? x : x - footprint.width + 1;
+
+            const newRoom = this.createRoom(roomId++, roomX, deckY, undefined, footprint);
+            this.graph.rooms.push(newRoom);
+            this.occupyCells(newRoom);
+
+            // Each room opens onto the hallway or the room before it
+            this.graph.links.push(this.createLink(previous, newRoom, 'door'));
+            previous = newRoom;
+
+            x = direction > 0 ? roomX + footprint.width : roomX - 1;
+        }
+    }
+
+    /**
+     * Gets how far a hull segment is from the spine (0 if the spine runs through it)
+     */
+    private getSegmentDistance(segment: HullSegment, spineX: number): number {
+        if (spineX < segment.start) return segment.start - spineX;
+        if (spineX > segment.end) return spineX - segment.end;
+        return 0;
+    }
+
+    /**
+     * Places a strip of rooms side by side within one hull segment of a deck
+     * and connects them to their neighbours and to the deck above
+     *
+     * @param segment The run of hull cells to place rooms in
+     * @param roomCount The number of rooms to place
+     * @param deckY The deck (grid row) being laid out
+     * @param numDecks The total number of decks
+     * @param spineX The central spine column
+     */
+    private layoutDeckSegment(
+        segment: HullSegment,
+        roomCount: number,
+        deckY: number,
+        numDecks: number,
+        spineX: number
+    ): void {
+        const segmentWidth = segment.end - segment.start + 1;
+        let roomId = this.graph.rooms.length + 1;
+
+        // Pick a footprint for each room in this segment. Rooms can span
+        // several cells and extend down into the decks below, but the
+        // strip as a whole must still fit within the segment.
+        const footprints: RoomFootprint[] = [];
+        let stripWidth = 0;
+
+        for (let i = 0; i < roomCount; i++) {
+            const remainingWidth = segmentWidth - stripWidth;
+            if (remainingWidth <= 0) break;
+
+            const footprint = this.dice.within(`footprint for room ${roomId + i}`, () =>
+                RoomFootprints.pickFootprint(this.getRoomTypeForId(roomId + i), remainingWidth, numDecks - deckY, this.dice)
+            );
+            footprints.push(footprint);
+            stripWidth += footprint.width;
+        }
+
+        // The segment's own spine is the ship's spine if it runs through
+        // this segment, otherwise the middle of the segment
+        const segmentSpine = spineX >= segment.start && spineX <= segment.end
+            ? spineX
+            : Math.floor((segment.start + segment.end) / 2);
+
+        // Anchor the strip below a room on the deck above when possible,
+        // preferring the one closest to the spine
+        let anchorX = segmentSpine;
+        let closestDistance = Infinity;
+        for (let x = segment.start; x <= segment.end; x++) {
+            if (this.getRoomAt(x, deckY - 1) && Math.abs(x - segmentSpine) < closestDistance) {
+                anchorX = x;
+                closestDistance = Math.abs(x - segmentSpine);
+            }
+        }
+
+        // First, determine a starting position that ensures:
+        // 1. At least one room will be at the anchor (the spine on a full-width hull)
+        // 2. All rooms fit within the segment
+        // 3. Rooms can start at the first or end at the last cell of the segment
+
+        let finalStartX;
+
+        // Create a range of possible starting positions
+        // The minimum starting position is the start of the segment
+        // The maximum starting position must ensure all rooms fit and at least one room is at the anchor
+        const minStartX = segment.start;
+        const maxStartX = segment.end - stripWidth + 1; // For a 6 cell strip in 11 cells, this is 5
+
+        // Find the range of starting positions that would place a room at the anchor
+        // For example, with a 6 cell strip and the anchor at 5, starting at position 0 would cover cells 0,1,2,3,4,5
+        // Starting at position 5 would cover cells 5,6,7,8,9,10
+        const minStartForAnchor = anchorX - (stripWidth - 1);
+        const maxStartForAnchor = anchorX;
+
+        // The actual range is the intersection of these two ranges
+        const actualMinStart = Math.max(minStartX, minStartForAnchor);
+        const actualMaxStart = Math.min(maxStartX, maxStartForAnchor);
+
+        // Randomly choose a starting position within this range
+        // This ensures we meet all our requirements while introducing randomness
+        if (actualMinStart >= actualMaxStart) {
+            // Only one possible starting position
+            finalStartX = actualMinStart;
+        } else {
+            // Calculate how many possible positions we have
+            const possiblePositions = actualMaxStart - actualMinStart + 1;
+            // Choose a random offset within the range
+            const randomOffset = this.dice.d(possiblePositions) - 1;
+            finalStartX = actualMinStart + randomOffset;
+        }
+
+        // Place rooms side by side in this segment
+        let roomX = finalStartX;
+
+        for (const pickedFootprint of footprints) {
+            // Step over cells still covered by tall rooms from the deck above
+            while (roomX <= segment.end && this.isPositionOccupied(roomX, deckY)) {
+                roomX++;
+            }
+
+            // Shrink the footprint if it no longer fits
+            const footprint = this.fitFootprint(roomX, deckY, pickedFootprint);
+
+            // Skip if position is already occupied or out of bounds
+            if (roomX > segment.end || !footprint) break;
+
+            // Create the room
+            const newRoom = this.createRoom(roomId++, roomX, deckY, undefined, footprint);
+            this.graph.rooms.push(newRoom);
+            this.occupyCells(newRoom);
+
+            // Connect to room to the left if it exists
+            const leftRoom = this.getRoomAt(roomX - 1, deckY);
+            if (leftRoom) {
+                this.graph.links.push(this.createLink(leftRoom, newRoom, 'door'));
+            }
+
+            // Connect to a tall room from the deck above that continues to the right
+            const rightRoom = this.getRoomAt(roomX + footprint.width, deckY);
+            if (rightRoom && !this.isLinked(rightRoom, newRoom)) {
+                this.graph.links.push(this.createLink(newRoom, rightRoom, 'door'));
+            }
+
+            // Connect to a room directly above the footprint if it exists
+            for (let x = roomX; x < roomX + footprint.width; x++) {
+                const roomAbove = this.getRoomAt(x, deckY - 1);
+                if (roomAbove) {
+                    this.graph.links.push(this.createLink(roomAbove, newRoom, 'hatch'));
+                    break;
+                }
+            }
+
+            roomX += footprint.width;
+        }
+    }
+
+    /**
+     * Joins disconnected parts of the ship until every room can be reached.
+     * Each repair merges the part containing the first room with one other part,
+     * so the fewest possible connections are added. Repairs are tried cheapest
+     * first: a door through a shared wall, then a corridor through empty hull
+     * cells, then a maintenance shaft routed through the hull. The search runs
+     * in a fixed order, so the same layout is always repaired the same way.
+     *
+     * @returns The repairs that were made, in order
+     */
+    private repairConnectivity(): ConnectivityRepair[] {
+        const repairs: ConnectivityRepair[] = [];
+        let components = this.getConnectedComponents(this.graph);
+
+        while (components.length > 1) {
+            const [main, ...others] = components;
+            const repair = this.repairWithDoor(main, others)
+                ?? this.repairWithCorridor(main, others)
+                ?? this.repairWithShaft(main, others);
+
+            this.graph.links.push(...repair.links);
+            repairs.push(repair);
+            components = this.getConnectedComponents(this.graph);
+        }
+
+        return repairs;
+    }
+
+    /**
+     * Adds a door between the main part and another part that shares a wall with it
+     * @returns The repair, or null if no other part shares a wall with the main part
+     */
+    private repairWithDoor(main: RoomNode[], others: RoomNode[][]): ConnectivityRepair | null {
+        for (const source of main) {
+            for (const component of others) {
+                const target = component.find(node => RoomFootprints.areAdjacent(source, node, this.cellSize));
+                if (target) {
+                    return { type: 'door', links: [this.createLink(source, target, this.getWallLinkType(source, target))] };
+                }
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Adds a corridor through empty hull cells from the main part to another part.
+     * The route is the shortest one found; each run of cells along a deck becomes
+     * one junction, and junctions on neighbouring decks are joined by hatches.
+     * @returns The repair, or null if no route through empty hull cells joins the parts
+     */
+    private repairWithCorridor(main: RoomNode[], others: RoomNode[][]): ConnectivityRepair | null {
+        const otherNodes = others.flat();
+        const isFree = (x: number, y: number) => !this.isPositionOccupied(x, y);
+
+        // Start from every free cell next to the main part, and stop at one next to another part
+        const starts = this.getGridCells().filter(cell => isFree(cell.x, cell.y) && this.findNeighbourIn(cell, main));
+        const route = this.findRoute(starts, isFree, cell => this.findNeighbourIn(cell, otherNodes) !== undefined);
+        if (!route) return null;
+
+        const source = this.findNeighbourIn(route[0], main)!;
+        const target = this.findNeighbourIn(route[route.length - 1], otherNodes)!;
+        return this.layRepairCorridor(route, source, target);
+    }
+
+    /**
+     * Builds junctions along a route of free cells and links them from one room to another
+     */
+    private layRepairCorridor(route: Array<{ x: number; y: number }>, source: RoomNode, target: RoomNode): ConnectivityRepair {
+        // Split the route into runs along a deck
+        const runs: Array<Array<{ x: number; y: number }>> = [];
+        for (const cell of route) {
+            const run = runs[runs.length - 1];
+            if (run && run[0].y === cell.y) {
+                run.push(cell);
+            } else {
+                runs.push([cell]);
+            }
         }
 
-        return visited.size === dungeon.rooms.length;
+        const junctions = runs.map(run => {
+            const id = this.graph.rooms.length + 1;
+            const junction: RoomNode = {
+                ...this.createCorridor(Math.min(...run.map(cell => cell.x)), run[0].y, run.length, 'Junction'),
+                id,
+                name: `Junction ${id}`,
+            };
+            this.graph.rooms.push(junction);
+            this.occupyCells(junction);
+            return junction;
+        });
+
+        const path = [source, ...junctions, target];
+        return {
+            type: 'corridor',
+            links: path.slice(1).map((node, i) => this.createLink(path[i], node, this.getWallLinkType(path[i], node))),
+            addedNodes: junctions
+        };
+    }
+
+    /**
+     * Runs a maintenance shaft from the main part to the nearest other part.
+     * The shaft is routed through hull cells, including occupied ones a corridor
+     * can't cross, so it never jumps across open space.
+     */
+    private repairWithShaft(main: RoomNode[], others: RoomNode[][]): ConnectivityRepair {
+        const otherNodes = others.flat();
+        const owner = (cell: { x: number; y: number }) => this.getRoomAt(cell.x, cell.y);
+        const inHull = (x: number, y: number) => this.hullMask[y][x] || this.grid[y][x] !== null;
+
+        const starts = this.getGridCells().filter(cell => main.some(node => node === owner(cell)));
+        const isGoal = (cell: { x: number; y: number }) => otherNodes.some(node => node === owner(cell));
+
+        // Small hulls can be scaled into separate sections, so if the hull doesn't join
+        // the parts the shaft crosses the shortest gap between the sections instead
+        const route = this.findRoute(starts, inHull, isGoal) ?? this.findRoute(starts, () => true, isGoal)!;
+
+        return {
+            type: 'maintenance-shaft',
+            links: [this.createLink(owner(route[0])!, owner(route[route.length - 1])!, 'maintenance-shaft')],
+            route: route.slice(1, -1)
+        };
+    }
+
+    /**
+     * Lists every cell of the grid, deck by deck
+     */
+    private getGridCells(): Array<{ x: number; y: number }> {
+        return Array.from({ length: this.shipHeight }, (_, y) =>
+            Array.from({ length: this.shipWidth }, (_, x) => ({ x, y }))
+        ).flat();
+    }
+
+    /**
+     * Finds a node from a list in one of the four cells next to a cell, checked in a fixed order
+     */
+    private findNeighbourIn(cell: { x: number; y: number }, nodes: RoomNode[]): RoomNode | undefined {
+        return [
+            this.getRoomAt(cell.x, cell.y - 1),
+            this.getRoomAt(cell.x, cell.y + 1),
+            this.getRoomAt(cell.x - 1, cell.y),
+            this.getRoomAt(cell.x + 1, cell.y)
+        ].find((node): node is RoomNode => node !== null && nodes.includes(node));
+    }
+
+    /**
+     * Finds the shortest route through the grid from any of the start cells to a goal cell.
+     * Ties go to the earliest start cell, so the same grid always gives the same route.
+     * @param canEnter Whether the route may pass through a cell (start cells are always allowed)
+     * @returns The cells of the route, from a start cell to a goal cell, or null if there is none
+     */
+    private findRoute(
+        starts: Array<{ x: number; y: number }>,
+        canEnter: (x: number, y: number) => boolean,
+        isGoal: (cell: { x: number; y: number }) => boolean
+    ): Array<{ x: number; y: number }> | null {
+        const key = (cell: { x: number; y: number }) => cell.y * this.shipWidth + cell.x;
+        const previous = new Map<number, { x: number; y: number } | null>(starts.map(cell => [key(cell), null]));
+        const queue = [...starts];
+
+        for (let i = 0; i < queue.length; i++) {
+            const cell = queue[i];
+
+            if (isGoal(cell)) {
+                const route = [cell];
+                for (let step = previous.get(key(cell)); step; step = previous.get(key(step))) {
+                    route.unshift(step);
+                }
+                return route;
+            }
+
+            const neighbours = [
+                { x: cell.x, y: cell.y - 1 },
+                { x: cell.x, y: cell.y + 1 },
+                { x: cell.x - 1, y: cell.y },
+                { x: cell.x + 1, y: cell.y }
+            ];
+            for (const next of neighbours) {
+                const inGrid = next.x >= 0 && next.x < this.shipWidth && next.y >= 0 && next.y < this.shipHeight;
+                if (inGrid && !previous.has(key(next)) && canEnter(next.x, next.y)) {
+                    previous.set(key(next), cell);
+                    queue.push(next);
+                }
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Gets the link type for two nodes sharing a wall: a hatch if one is stacked on the other, otherwise a door
+     */
+    private getWallLinkType(source: RoomNode, target: RoomNode): LinkType {
+        const edges = RoomFootprints.getSharedEdges(source, target, this.cellSize);
+        return edges.some(edge => edge.side === 'north' || edge.side === 'south') ? 'hatch' : 'door';
+    }
+
+    /**
+     * Splits a ship into groups of nodes that can reach each other through links.
+     * The first group always contains the first room.
+     */
+    private getConnectedComponents(dungeon: DungeonGraph): RoomNode[][] {
+        const visited = new Set<number>();
+        const components: RoomNode[][] = [];
+
+        for (const start of dungeon.rooms) {
+            if (visited.has(start.id)) continue;
+
+            const component: RoomNode[] = [];
+            const stack = [start];
+            visited.add(start.id);
+
+            while (stack.length > 0) {
+                const current = stack.pop()!;
+                component.push(current);
+
+                // Find all connected rooms through links
+                dungeon.links.forEach((link) => {
+                    if (link.source.id === current.id && !visited.has(link.target.id)) {
+                        visited.add(link.target.id);
+                        stack.push(link.target);
+                    } else if (link.target.id === current.id && !visited.has(link.source.id)) {
+                        visited.add(link.source.id);
+                        stack.push(link.source);
+                    }
+                });
+            }
+
+            components.push(component);
+        }
+
+        return components;
+    }
+
+    /**
+     * Validates that all rooms in the ship are connected, that no two
+     * room footprints overlap and that every door sits on a shared wall
+     */
+    validateDungeon(dungeon: DungeonGraph): boolean {
+        if (!this.hasValidFootprints(dungeon)) return false;
+
+        return this.getConnectedComponents(dungeon).length <= 1;
+    }
+
+    /**
+     * Checks that room footprints do not overlap and that doors are
+     * placed on an edge the two linked rooms actually share
+     */
+    private hasValidFootprints(dungeon: DungeonGraph): boolean {
+        const occupied = new Set<string>();
+
+        for (const room of dungeon.rooms) {
+            for (const cell of RoomFootprints.getCells(room, this.cellSize)) {
+                const key = `${cell.x},${cell.y}`;
+                if (occupied.has(key)) return false;
+                occupied.add(key);
+            }
+        }
+
+        return dungeon.links.every(link => {
+            if (!link.door) return true;
+
+            const door = link.door;
+            return RoomFootprints.getSharedEdges(link.source, link.target, this.cellSize)
+                .some(edge => edge.x === door.x && edge.y === door.y && edge.side === door.side);
+        });
+    }
+
+    /**
+     * Gets why each room of the last ship generated got its type, in room order
+     */
+    public getRoomTypeExplanations(): RoomPlacementExplanation[] {
+        return this.roomTypeExplanations;
     }
 
     /**
@@ -320,24 +1030,41 @@ export class ShipGenerator {
         const width = this.shipWidth;
         const height = this.shipHeight;
 
-        // Initialize grid with all cells walkable (empty space is walkable)
+        // With corridors only the corridor cells are walkable,
+        // otherwise the empty space between rooms is
+        const hasCorridors = this.graph.rooms.some(room => room.kind === 'corridor');
+
         const grid: GridCell[][] = Array(height)
             .fill(null)
             .map(() =>
                 Array(width)
                     .fill(null)
-                    .map(() => ({ walkable: true }))
+                    .map(() => ({ walkable: !hasCorridors }))
             );
 
-        // Mark room cells as non-walkable (rooms block movement)
+        // Mark every cell of each footprint, rooms block movement and corridors allow it
         for (const room of this.graph.rooms) {
-            const gridX = Math.floor(room.x / this.cellSize);
-            const gridY = Math.floor(room.y / this.cellSize);
-            grid[gridY][gridX].walkable = false;
+            for (const cell of RoomFootprints.getCells(room, this.cellSize)) {
+                grid[cell.y][cell.x].walkable = room.kind === 'corridor';
+            }
+        }
+
+        if (hasCorridors) {
+            return { grid, cellSize: this.cellSize };
         }
 
         // Mark corridors between rooms as non-walkable
         for (const link of this.graph.links) {
+            // Doors only block the two cells either side of the shared edge
+            if (link.door) {
+                for (const cell of RoomFootprints.getDoorCells(link.door)) {
+                    if (cell.y >= 0 && cell.y < height && cell.x >= 0 && cell.x < width) {
+                        grid[cell.y][cell.x].walkable = false;
+                    }
+                }
+                continue;
+            }
+
             const startX = Math.floor(link.source.x / this.cellSize);
             const startY = Math.floor(link.source.y / this.cellSize);
             const endX = Math.floor(link.target.x / this.cellSize);
@@ -365,14 +1092,22 @@ export class ShipGenerator {
     }
 
     /**
-     * Generates a ship based on the ShipBreakers ship type.
-     * Uses the dice notation from the ship type to determine number of decks
-     * and generates rooms for each deck.
+     * Generates a ship based on a ship type.
+     * The config's ruleset (Shipbreakers unless set) decides how the ship type's
+     * number of decks and rooms per deck are rolled.
      */
-    generateShipFromType(shipType: { name: string; decks: string }, config: Partial<GenerationConfig> = {}): DungeonGraph {
+    generateShipFromType(shipType: ShipTypeDefinition, config: Partial<GenerationConfig> = {}): DungeonGraph {
+        const ruleset = Rulesets.get(config.ruleset);
 
-        // Roll for number of decks
-        const numDecks = Dice.rollFromNotation(shipType.decks).total;
+        // Roll for number of decks (an expression like "1d6-2" can come up short, so there's always at least one)
+        const numDecks = Math.max(1, this.log.within('deck count', () => ruleset.rollDeckCount(shipType, this.dice)));
+
+        // Work out the ship width: an explicit width wins, then a width derived
+        // from the deck count, then the ship type's width roll, then the default
+        const shipWidth = config.shipWidth
+            ?? (config.aspectRatio ? Math.round(numDecks * config.aspectRatio) : undefined)
+            ?? (shipType.width ? Math.max(1, this.log.within('ship width', () => this.dice.rollFromNotation(shipType.width!).total)) : undefined)
+            ?? DUNGEON_CONSTANTS.SHIP_WIDTH;
 
         // Default rooms per deck is 1
         const defaultRoomsPerDeck = 1;
@@ -387,9 +1122,9 @@ export class ShipGenerator {
         // If varied rooms per deck is enabled and not specified in config
         if (!config.roomsPerDeckArray) {
             for (let i = 0; i < numDecks; i++) {
-                // Generate a weighted random number of rooms for this deck
+                // Roll the number of rooms for this deck using the ruleset
                 const roomsForThisDeck = shouldRandomize
-                    ? this.getWeightedRoomCount() // Weighted probability (1 is most likely, 6 is least likely)
+                    ? this.log.within(`room count for deck ${i + 1}`, () => ruleset.rollRoomCount(shipType, this.dice))
                     : (config.roomsPerDeck || defaultRoomsPerDeck);
 
                 roomsPerDeckArray.push(roomsForThisDeck);
@@ -403,73 +1138,25 @@ export class ShipGenerator {
             totalRooms = numDecks * (config.roomsPerDeck || defaultRoomsPerDeck);
         }
 
-        // Since ship width is now fixed at 11 cells, we use that value directly
-        // to calculate dungeonWidth based on the cell size
-        const dungeonWidth = this.shipWidth * this.cellSize;
+        // Calculate dungeonWidth from the ship width based on the cell size
+        const dungeonWidth = shipWidth * this.cellSize;
 
         const completeConfig: GenerationConfig = {
             numRooms: totalRooms,
             dungeonWidth: dungeonWidth,
             dungeonHeight: numDecks * this.cellSize, // Height based on number of decks
             numDecks,
+            shipWidth,
             roomsPerDeck: config.roomsPerDeck || defaultRoomsPerDeck,
             roomsPerDeckArray: config.roomsPerDeckArray || roomsPerDeckArray,
             randomizeRoomsPerDeck: shouldRandomize,
             minSecondaryLinks: 1,
             maxSecondaryLinks: Math.ceil(totalRooms * 0.3),
             shipTypeName: shipType.name, // Pass the ship type name to generate
+            hullTemplate: shipType.hull, // Use the ship type's default hull unless the config selects one
             ...config
         };
 
         return this.generate(completeConfig);
     }
-
-    /**
-     * Returns a weighted random room count where:
-     * - 1 room is most likely (6/21 probability, ~28.6%)
-     * - 2 rooms is next most likely (5/21 probability, ~23.8%)
-     * - 3 rooms is next (4/21 probability, ~19.0%)
-     * - 4 rooms is next (3/21 probability, ~14.3%)
-     * - 5 rooms is next (2/21 probability, ~9.5%)
-     * - 6 rooms is least likely (1/21 probability, ~4.8%)
-     * 
-     * Uses an n/21 weighted probability distribution
-     */
-    private getWeightedRoomCount(): number {
-        // Roll a d21 (21-sided die)
-        const roll = Dice.d(21);
-
-        // Map the d21 roll to our weighted room counts:
-        if (roll <= 6) return 1;       // 6/21 probability (~28.6%)
-        if (roll <= 11) return 2;      // 5/21 probability (~23.8%)
-        if (roll <= 15) return 3;      // 4/21 probability (~19.0%)
-        if (roll <= 18) return 4;      // 3/21 probability (~14.3%)
-        if (roll <= 20) return 5;      // 2/21 probability (~9.5%)
-        return 6;                      // 1/21 probability (~4.8%)
-    }
-
-    /**
-     * Generates a ship layout with properly placed room types
-     * using both the ship layout generation and the room placement rules
-     * 
-     * @param shipType The ship type definition
-     * @param config Additional configuration options
-     * @returns A ship layout with optimized room placements
-     */
-    generateOptimizedShip(shipType: { name: string; decks: string }, config: Partial<GenerationConfig> = {}): DungeonGraph {
-        // First generate the basic ship layout
-        const shipLayout = this.generateShipFromType(shipType, config);
-
-        // Import the RoomGenerator
-        import('./roomGenerator').then(module => {
-            const RoomGenerator = module.RoomGenerator;
-            // Apply proper room placement rules
-            const roomGenerator = new RoomGenerator();
-            return roomGenerator.applyRoomTypes(shipLayout, shipType.name);
-        });
-
-        // Return the basic layout while we wait for the optimized one
-        // This is a workaround for the dynamic import
-        return shipLayout;
-    }
 } 
\ No newline at end of file
@@ -0,0 +1,253 @@
+import { readFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { Resvg } from '@resvg/resvg-js';
+import PDFDocument from 'pdfkit';
+import { HeadlessRenderer } from './headlessRenderer';
+import { TextRenderer, type TextMapCharset } from './textRenderer';
+import type { RoomLabelMode } from './roomStyles';
+import { ShipExport, type EmbeddedFont } from './shipExport';
+import { ShipSheets, type RolledShip, type ShipSheet } from './shipSheet';
+
+/**
+ * A font on disk, used for the map and the sheet
+ */
+export interface HandoutFont {
+  family: string;
+  path: string;
+  weight?: 'normal' | 'bold';
+}
+
+/**
+ * How a ship's map is drawn for a handout
+ */
+export interface HandoutMapOptions {
+  monochrome?: boolean;                  // Patterns instead of colours, for black and white printers
+  renderSecondaryConnections?: boolean;
+  roomLabels?: RoomLabelMode;
+}
+
+/**
+ * Options for a standalone SVG map
+ */
+export interface SvgOptions {
+  fonts?: HandoutFont[];
+  embedFonts?: boolean;  // Embed the font files (the default), or only name them for a much smaller file
+}
+
+/**
+ * Options for a PNG map
+ */
+export interface PngOptions {
+  dpi?: number;          // Pixels per inch when printed (defaults to 300); the map is 96 CSS pixels to the inch
+  fonts?: HandoutFont[];
+}
+
+/**
+ * Options for a PDF ship sheet
+ */
+export interface PdfOptions {
+  pageSize?: 'A4' | 'LETTER';
+  dpi?: number;          // Resolution of the map on the page (defaults to 300)
+  fonts?: HandoutFont[]; // The first regular and bold fonts set the sheet's text
+}
+
+const CSS_PIXELS_PER_INCH = 96;
+const POINTS_PER_INCH = 72;
+const DEFAULT_DPI = 300;
+
+// Sheet layout, in points
+const PAGE_MARGIN = 36;
+const COLUMN_GAP = 18;
+const MAP_HEIGHT_RATIO = 0.5;   // The most of the page the map may take
+const MIN_TEXT_SIZE = 6;
+
+/**
+ * Utility class for making printable handouts of ships in Node: standalone SVG maps,
+ * PNG maps at a chosen DPI, text maps, and one-page PDF ship sheets
+ */
+export class ShipHandouts {
+  /**
+   * Gets the bundled DejaVu Sans fonts, which have every glyph the map uses
+   */
+  static getDefaultFonts(): HandoutFont[] {
+    const require = createRequire(import.meta.url);
+    return [
+      { family: 'DejaVu Sans', path: require.resolve('dejavu-fonts-ttf/ttf/DejaVuSans.ttf'), weight: 'normal' },
+      { family: 'DejaVu Sans', path: require.resolve('dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf'), weight: 'bold' }
+    ];
+  }
+
+  /**
+   * Draws a ship's map as SquareCellRenderer does in the browser, with every link shown
+   * @returns The map's SVG markup
+   */
+  static renderMap(ship: RolledShip, options: HandoutMapOptions = {}): string {
+    const renderer = new HeadlessRenderer();
+    renderer.setMonochrome(options.monochrome ?? false);
+    renderer.setRenderSecondaryConnections(options.renderSecondaryConnections ?? false);
+    renderer.setRoomLabels(options.roomLabels ?? 'both');
+    renderer.render(ship.dungeon, ship.navigationData);
+
+    return renderer.toSvg();
+  }
+
+  /**
+   * Draws a ship's map as text, with the same options as the SVG map
+   */
+  static renderTextMap(ship: RolledShip, options: HandoutMapOptions & { charset?: TextMapCharset } = {}): string {
+    const renderer = new TextRenderer();
+    renderer.setRenderSecondaryConnections(options.renderSecondaryConnections ?? false);
+    renderer.setRoomLabels(options.roomLabels ?? 'both');
+    renderer.setCharset(options.charset ?? 'unicode');
+    return renderer.render(ship.dungeon);
+  }
+
+  /**
+   * Makes a standalone SVG of a map, with the fonts embedded unless asked not to
+   */
+  static toSvg(markup: string, options: SvgOptions = {}): string {
+    const { fonts = this.getDefaultFonts(), embedFonts = true } = options;
+    return embedFonts
+      ? ShipExport.toStandaloneSvg(markup, { fonts: fonts.map(font => this.toEmbeddedFont(font)) })
+      : ShipExport.toStandaloneSvg(markup, { fontFamilies: fonts.map(font => font.family) });
+  }
+
+  /**
+   * Rasterises a map to a PNG at the chosen DPI, recorded in the file so it prints at the map's size
+   */
+  static toPng(markup: string, options: PngOptions = {}): Buffer {
+    const { dpi = DEFAULT_DPI, fonts = this.getDefaultFonts() } = options;
+    if (!(dpi > 0)) {
+      throw new Error(`DPI must be more than 0, but is ${dpi}`);
+    }
+
+    // Only load the given fonts, so the same map looks the same on every machine
+    // resvg reads them from disk, so there's no need to embed them in the SVG
+    const resvg = new Resvg(this.toSvg(markup, { fonts, embedFonts: false }), {
+      fitTo: { mode: 'zoom', value: dpi / CSS_PIXELS_PER_INCH },
+      font: {
+        loadSystemFonts: false,
+        fontFiles: fonts.map(font => font.path),
+        defaultFontFamily: fonts[0]?.family
+      }
+    });
+
+    return this.setPngDpi(resvg.render().asPng(), dpi);
+  }
+
+  /**
+   * Lays out a one-page ship sheet: the name and type, the deck map,
+   * then the lore beside the room list
+   */
+  static toPdf(sheet: ShipSheet, markup: string, options: PdfOptions = {}): Promise<Buffer> {
+    const { pageSize = 'A4', dpi = DEFAULT_DPI, fonts = this.getDefaultFonts() } = options;
+    const regularFont = fonts.find(font => font.weight !== 'bold') ?? fonts[0];
+
+    const doc = new PDFDocument({
+      size: pageSize,
+      margin: PAGE_MARGIN,
+      info: { Title: sheet.name, Subject: `${sheet.shipType} (seed ${sheet.seed})` }
+    });
+    if (regularFont) {
+      doc.registerFont('regular', regularFont.path);
+      doc.registerFont('bold', (fonts.find(font => font.weight === 'bold') ?? regularFont).path);
+    } else {
+      doc.registerFont('regular', 'Helvetica');
+      doc.registerFont('bold', 'Helvetica-Bold');
+    }
+
+    const chunks: Buffer[] = [];
+    const finished = new Promise<Buffer>((resolve, reject) => {
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+    });
+
+    const left = PAGE_MARGIN;
+    const contentWidth = doc.page.width - PAGE_MARGIN * 2;
+    const bottom = doc.page.height - PAGE_MARGIN;
+
+    // Name and type
+    doc.font('bold').fontSize(22).fillColor('black').text(sheet.name, left, PAGE_MARGIN, { width: contentWidth });
+    doc.font('regular').fontSize(10).fillColor('#525252').text(`${sheet.shipType} · Seed ${sheet.seed}`, { width: contentWidth });
+
+    // The map, no bigger than it was drawn, so the image is at least the chosen DPI
+    const mapTop = doc.y + 10;
+    const { width, height } = ShipExport.getSize(markup);
+    const naturalWidth = width / CSS_PIXELS_PER_INCH * POINTS_PER_INCH;
+    const naturalHeight = height / CSS_PIXELS_PER_INCH * POINTS_PER_INCH;
+    const scale = Math.min(1, contentWidth / naturalWidth, (doc.page.height * MAP_HEIGHT_RATIO) / naturalHeight);
+    const mapWidth = naturalWidth * scale;
+    const mapHeight = naturalHeight * scale;
+    doc.image(this.toPng(markup, { dpi, fonts }), left + (contentWidth - mapWidth) / 2, mapTop, { width: mapWidth, height: mapHeight });
+
+    // Lore on the left, rooms on the right, shrunk until both fit on the page
+    const columnTop = mapTop + mapHeight + 14;
+    const columnWidth = (contentWidth - COLUMN_GAP) / 2;
+    const lore = ShipSheets.getLoreEntries(sheet);
+    const rooms = sheet.rooms.map(room => ShipSheets.describeRoom(room));
+
+    const loreHeight = (size: number) => lore.reduce((total, entry) =>
+      total + doc.font('bold').fontSize(size).heightOfString(entry.label, { width: columnWidth }) +
+      doc.font('regular').fontSize(size).heightOfString(entry.value, { width: columnWidth }) + size / 2, 0);
+    const roomsHeight = (size: number) => size * 1.6 +
+      doc.font('regular').fontSize(size).heightOfString(rooms.join('\n'), { width: columnWidth });
+
+    let textSize = 10;
+    while (textSize > MIN_TEXT_SIZE && Math.max(loreHeight(textSize), roomsHeight(textSize)) > bottom - columnTop) {
+      textSize -= 0.5;
+    }
+
+    let y = columnTop;
+    for (const entry of lore) {
+      doc.font('bold').fontSize(textSize).fillColor('black').text(entry.label, left, y, { width: columnWidth });
+      doc.font('regular').fontSize(textSize).text(entry.value, left, doc.y, { width: columnWidth, height: bottom - doc.y, ellipsis: true });
+      y = doc.y + textSize / 2;
+    }
+
+    const roomsLeft = left + columnWidth + COLUMN_GAP;
+    doc.font('bold').fontSize(textSize * 1.2).text('Rooms', roomsLeft, columnTop, { width: columnWidth });
+    doc.font('regular').fontSize(textSize).text(rooms.join('\n'), roomsLeft, doc.y + textSize * 0.2, {
+      width: columnWidth,
+      height: bottom - doc.y,
+      ellipsis: true
+    });
+
+    doc.end();
+    return finished;
+  }
+
+  private static toEmbeddedFont(font: HandoutFont): EmbeddedFont {
+    const format = font.path.toLowerCase().endsWith('.otf') ? 'opentype' : 'truetype';
+    return { family: font.family, data: readFileSync(font.path), format, weight: font.weight };
+  }
+
+  /**
+   * Records the DPI in a PNG's pHYs chunk, just after its header, so it prints at the right size
+   */
+  private static setPngDpi(png: Buffer, dpi: number): Buffer {
+    const pixelsPerMetre = Math.round(dpi / 0.0254);
+    const chunk = Buffer.alloc(21);
+    chunk.writeUInt32BE(9, 0);
+    chunk.write('pHYs', 4, 'ascii');
+    chunk.writeUInt32BE(pixelsPerMetre, 8);
+    chunk.writeUInt32BE(pixelsPerMetre, 12);
+    chunk.writeUInt8(1, 16); // Unit: metres
+    chunk.writeUInt32BE(this.crc32(chunk.subarray(4, 17)), 17);
+
+    // The signature (8 bytes) and IHDR chunk (25 bytes) always come first
+    const headerEnd = 33;
+    return Buffer.concat([png.subarray(0, headerEnd), chunk, png.subarray(headerEnd)]);
+  }
+
+  private static crc32(data: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (const byte of data) {
+      crc ^= byte;
+      for (let bit = 0; bit < 8; bit++) {
+        crc = (crc >>> 1) ^ (0xedb88320 & -(crc & 1));
+      }
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+  }
+}
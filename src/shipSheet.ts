@@ -0,0 +1,176 @@
+import { ShipGenerator } from './shipGenerator';
+import { PRNG } from './prng';
+import { Dice } from './dice';
+import { RollLog } from './rollLog';
+import { TableRegistry } from './tableRegistry';
+import { DUNGEON_CONSTANTS } from './constants';
+import { EXTERIOR_FEATURE_NAMES } from './exteriorFeatures';
+import type { LoadedTables } from './tablePack';
+import type { RulesetName } from './rulesets';
+import type { NavigationGridData } from './renderer';
+import type { RoomPlacementExplanation, RoomTypeScore } from './roomTypeOptimizer';
+import type { DungeonGraph, RoomFootprint, RoomType, ShipTypeDefinition } from './types';
+
+/**
+ * The lore rolled for a ship, as shown beside its map
+ */
+export interface ShipLore {
+  status: string;
+  survivors: string;
+  systems: string;
+  salvage: string;
+  cargo: string;
+  causeOfRuin: string;
+  weird: string;
+  randomCargo: string;
+}
+
+/**
+ * A room as listed on a ship sheet
+ */
+export interface ShipSheetRoom {
+  id: number;
+  type?: RoomType;
+  deck: number;                // Counted from 1 at the top of the ship
+  position: number;            // Cell along the deck, from 0
+  footprint: RoomFootprint;
+  exteriorFeatures: string[];  // Names of any airlocks, docking collars or escape pods on its hull
+}
+
+/**
+ * Everything printed on a ship sheet, apart from the map
+ */
+export interface ShipSheet {
+  seed: string;
+  name: string;
+  shipType: string;
+  lore: ShipLore;
+  rooms: ShipSheetRoom[];      // Sorted by deck, then position along the deck
+}
+
+/**
+ * A ship rolled from a seed: its layout, ready to render, and its sheet
+ */
+export interface RolledShip {
+  sheet: ShipSheet;
+  shipType: ShipTypeDefinition;
+  dungeon: DungeonGraph;
+  navigationData: NavigationGridData;
+  roomTypeScore: RoomTypeScore;                // How well the room types fit the placement rules
+  explanations: RoomPlacementExplanation[];    // Why each room got its type, in room order
+}
+
+/**
+ * The lore fields, in the order they are shown, with their labels
+ */
+export const SHIP_LORE_LABELS: Record<keyof ShipLore, string> = {
+  status: 'Ship Status',
+  survivors: 'Survivors',
+  systems: 'Ship Systems',
+  salvage: 'Salvage',
+  cargo: 'Cargo',
+  causeOfRuin: 'Cause of Ruin',
+  weird: 'Weird Feature',
+  randomCargo: 'Random Cargo'
+};
+
+/**
+ * Utility class for rolling ships and the sheets that describe them
+ */
+export class ShipSheets {
+  /**
+   * Rolls a whole ship from a seed: its name, type and lore, then its layout
+   * The same seed, tables and ruleset always give the same ship.
+   */
+  static roll(seed: string, tables: LoadedTables, ruleset: RulesetName): RolledShip {
+    // Each part of the ship rolls from its own stream, so adding a roll to
+    // one part doesn't change the others for the same seed
+    const rng = new PRNG(seed);
+
+    // Every roll, from the ship's name to its exterior features, goes in one log
+    const rollLog = new RollLog();
+    const loreDice = new Dice(rng.fork('lore'), rollLog, 'lore');
+    const shipTypeDice = new Dice(rng.fork('ship-type'), rollLog, 'ship-type');
+    const shipGenerator = new ShipGenerator(rng, rollLog);
+
+    // Rolls on a lore table, following any references to other tables
+    const rollLore = (table: string) => TableRegistry.describe(loreDice.rollOnTable(table, tables.tables));
+
+    const name = `${rollLore('namePartA')} ${rollLore('namePartB')} ${rollLore('namePartC')}`;
+    const shipType = shipTypeDice.within('ship type', () => shipTypeDice.rollWithOutcome(tables.shipTypes));
+
+    const lore: ShipLore = {
+      status: rollLore('shipStatus'),
+      survivors: rollLore('survivors'),
+      systems: rollLore('shipSystems'),
+      salvage: rollLore('salvage'),
+      cargo: rollLore('cargo'),
+      causeOfRuin: rollLore('causeOfRuin'),
+      weird: rollLore('weird'),
+      randomCargo: rollLore('randomCargo')
+    };
+
+    // The generator places the room types once the layout is known, optimised for the whole ship
+    const dungeon = shipGenerator.generateShipFromType(shipType, { ruleset });
+
+    // The generator repairs any disconnected parts of the layout, so it can always be rendered
+    const navigationData = shipGenerator.createNavigationGrid();
+
+    return {
+      sheet: { seed, name, shipType: shipType.name, lore, rooms: this.getRooms(dungeon) },
+      shipType,
+      dungeon,
+      navigationData,
+      roomTypeScore: dungeon.roomTypeScore!,
+      explanations: shipGenerator.getRoomTypeExplanations()
+    };
+  }
+
+  /**
+   * Lists a ship's rooms (not its corridors) by deck, then by position along the deck
+   */
+  static getRooms(dungeon: DungeonGraph): ShipSheetRoom[] {
+    const cellSize = DUNGEON_CONSTANTS.CELL_SIZE;
+
+    return dungeon.rooms
+      .filter(room => room.kind !== 'corridor')
+      .map(room => ({
+        id: room.id,
+        type: room.type,
+        deck: Math.floor(room.y / cellSize) + 1,
+        position: Math.floor(room.x / cellSize),
+        footprint: room.footprint || { width: 1, height: 1 },
+        exteriorFeatures: (dungeon.exteriorFeatures || [])
+          .filter(feature => feature.room === room)
+          .map(feature => EXTERIOR_FEATURE_NAMES[feature.type])
+      }))
+      .sort((a, b) => a.deck - b.deck || a.position - b.position);
+  }
+
+  /**
+   * Gets the lore as label and value pairs, in display order
+   */
+  static getLoreEntries(sheet: ShipSheet): Array<{ label: string; value: string }> {
+    return (Object.keys(SHIP_LORE_LABELS) as Array<keyof ShipLore>).map(field => ({
+      label: SHIP_LORE_LABELS[field],
+      value: sheet.lore[field]
+    }));
+  }
+
+  /**
+   * Describes where a room is, e.g. "Deck 2, Position 3, 2x1"
+   */
+  static describeLocation(room: ShipSheetRoom): string {
+    const { width, height } = room.footprint;
+    const size = width > 1 || height > 1 ? `, ${width}x${height}` : '';
+    return `Deck ${room.deck}, Position ${room.position}${size}`;
+  }
+
+  /**
+   * Describes a room in one line, e.g. "Room 4: COMMAND (Deck 1, Position 2) - Airlock"
+   */
+  static describeRoom(room: ShipSheetRoom): string {
+    const exterior = room.exteriorFeatures.length > 0 ? ` - ${room.exteriorFeatures.join(', ')}` : '';
+    return `Room ${room.id}: ${room.type ?? 'Untyped'} (${this.describeLocation(room)})${exterior}`;
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * An SVG element in a drawing built without a DOM
+ */
+export interface SvgElement {
+  tag: string;
+  attributes: Record<string, string | number>;
+  children: SvgNode[];
+}
+
+/**
+ * An element, or a run of text
+ */
+export type SvgNode = SvgElement | string;
+
+export const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+
+/**
+ * Utility class for building SVG drawings as plain objects, and writing them out as markup
+ * The same tree can be serialised in Node or mounted into a live SVG element in the browser.
+ */
+export class SvgTree {
+  static create(tag: string, attributes: Record<string, string | number> = {}, children: SvgNode[] = []): SvgElement {
+    return { tag, attributes, children };
+  }
+
+  /**
+   * Adds a new element to the end of a parent's children
+   * @returns The new element
+   */
+  static append(parent: SvgElement, tag: string, attributes: Record<string, string | number> = {}, children: SvgNode[] = []): SvgElement {
+    const element = this.create(tag, attributes, children);
+    parent.children.push(element);
+    return element;
+  }
+
+  /**
+   * Writes a node and everything in it as SVG markup
+   */
+  static serialize(node: SvgNode): string {
+    if (typeof node === 'string') {
+      return this.escape(node);
+    }
+
+    const attributes = Object.entries(node.attributes)
+      .map(([name, value]) => ` ${name}="${this.escape(String(value))}"`)
+      .join('');
+    const content = node.children.map(child => this.serialize(child)).join('');
+
+    return content === ''
+      ? `<${node.tag}${attributes}/>`
+      : `<${node.tag}${attributes}>${content}</${node.tag}>`;
+  }
+
+  /**
+   * Writes a drawing as a standalone SVG document's markup
+   */
+  static toDocument(root: SvgElement): string {
+    return this.serialize({ ...root, attributes: { xmlns: SVG_NAMESPACE, ...root.attributes } });
+  }
+
+  private static escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
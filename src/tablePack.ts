@@ -0,0 +1,330 @@
+import { parse as parseYaml } from 'yaml';
+import { Dice } from './dice';
+import type { OutcomeTable } from './dice';
+import { TableRegistry, TABLE_REFERENCE_REGEX } from './tableRegistry';
+import { HullTemplates } from './hullTemplates';
+import type { ShipTypeDefinition } from './types';
+
+/**
+ * A validated table pack
+ */
+export interface TablePack {
+  name: string;
+  description?: string;
+  shipTypes?: OutcomeTable<ShipTypeDefinition>;
+  tables: Record<string, OutcomeTable<string>>;
+}
+
+/**
+ * The tables in use once one or more packs have been loaded
+ */
+export interface LoadedTables {
+  packs: string[];                              // Names of the packs, in load order
+  shipTypes: OutcomeTable<ShipTypeDefinition>;
+  tables: TableRegistry;
+}
+
+/**
+ * A table as written in a pack file, before validation
+ * Outcome keys are either a threshold ("85") or an inclusive range ("85-94").
+ */
+interface RawTable {
+  sides?: unknown;
+  quantity?: unknown;
+  outcomes?: unknown;
+}
+
+/**
+ * Utility class for loading table packs
+ *
+ * A pack is a JSON or YAML document:
+ *
+ * name: My Pack
+ * shipTypes:                  # optional, replaces the ship type table
+ *   sides: 100
+ *   outcomes:
+ *     0: { name: Hauler, decks: 2d6, hull: wedge, width: 3d4 }
+ *     50: { name: Freighter, minDecks: 2, maxDecks: 6, roomsPerDeck: 1d6+2 }  # Dead Planet rules
+ * tables:                     # adds tables, or replaces ones with the same name
+ *   cargo:
+ *     sides: 10
+ *     quantity: 1             # optional, defaults to 1
+ *     outcomes:
+ *       1-6: "1D10 Containers of Ore"
+ *       7-10: "[[randomCargo]]"
+ */
+export class TablePacks {
+  /**
+   * Parses and validates a pack from JSON or YAML text (YAML is a superset of JSON, so either works)
+   * @param source The text of the pack file
+   * @returns The validated pack
+   * @throws Error listing every problem found in the pack
+   */
+  static parse(source: string): TablePack {
+    let data: unknown;
+    try {
+      data = parseYaml(source);
+    } catch (error) {
+      throw new Error(`Table pack could not be read: ${error instanceof Error ? error.message : error}`);
+    }
+
+    return this.fromData(data);
+  }
+
+  /**
+   * Validates already-parsed pack data
+   * @throws Error listing every problem found in the pack
+   */
+  static fromData(data: unknown): TablePack {
+    const errors = this.validate(data);
+    if (errors.length > 0) {
+      const name = this.isObject(data) && typeof data.name === 'string' ? ` "${data.name}"` : '';
+      throw new Error(`Invalid table pack${name}:\n${errors.map(error => `- ${error}`).join('\n')}`);
+    }
+
+    const pack = data as { name: string; description?: string; shipTypes?: RawTable; tables?: Record<string, RawTable> };
+    const tables: Record<string, OutcomeTable<string>> = {};
+    for (const [name, table] of Object.entries(pack.tables ?? {})) {
+      tables[name] = this.toOutcomeTable<string>(table);
+    }
+
+    return {
+      name: pack.name,
+      description: pack.description,
+      shipTypes: pack.shipTypes ? this.toOutcomeTable<ShipTypeDefinition>(pack.shipTypes) : undefined,
+      tables
+    };
+  }
+
+  /**
+   * Checks pack data against the pack format
+   * @returns A description of each problem found (empty if the pack is valid)
+   */
+  static validate(data: unknown): string[] {
+    if (!this.isObject(data)) {
+      return ['A table pack must be an object'];
+    }
+
+    const errors: string[] = [];
+
+    if (typeof data.name !== 'string' || data.name.trim() === '') {
+      errors.push('"name" must be a non-empty string');
+    }
+    if (data.description !== undefined && typeof data.description !== 'string') {
+      errors.push('"description" must be a string');
+    }
+
+    if (data.shipTypes !== undefined) {
+      errors.push(...this.validateTable('shipTypes', data.shipTypes, outcome => this.validateShipType(outcome)));
+    }
+
+    if (data.tables !== undefined && !this.isObject(data.tables)) {
+      errors.push('"tables" must be an object of named tables');
+    } else if (data.shipTypes === undefined && (data.tables === undefined || Object.keys(data.tables).length === 0)) {
+      errors.push('A table pack must contain "shipTypes" or at least one table in "tables"');
+    } else if (data.tables) {
+      for (const [name, table] of Object.entries(data.tables)) {
+        errors.push(...this.validateTable(`tables.${name}`, table, outcome =>
+          typeof outcome === 'string' ? [] : ['must be a string']
+        ));
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Combines packs into the tables the generator rolls on.
+   * Later packs add to the earlier ones, replacing any tables with the same name.
+   * @throws Error if no pack provides ship types, or a table references one that doesn't exist
+   */
+  static load(packs: TablePack[]): LoadedTables {
+    const tables = new Map<string, OutcomeTable<string>>();
+    let shipTypes: OutcomeTable<ShipTypeDefinition> | undefined;
+
+    for (const pack of packs) {
+      shipTypes = pack.shipTypes ?? shipTypes;
+      for (const [name, table] of Object.entries(pack.tables)) {
+        tables.set(name, table);
+      }
+    }
+
+    const errors: string[] = [];
+    if (!shipTypes) {
+      errors.push('No pack provides "shipTypes"');
+    }
+
+    // Every reference has to point at a table from one of the packs
+    for (const [name, table] of tables) {
+      for (const [threshold, outcome] of Object.entries(table.outcomes)) {
+        for (const match of outcome.matchAll(TABLE_REFERENCE_REGEX)) {
+          const reference = match[1].trim();
+          if (!tables.has(reference)) {
+            errors.push(`tables.${name}.outcomes.${threshold}: unknown table reference "[[${reference}]]"`);
+          }
+        }
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new Error(`Table packs ${packs.map(pack => `"${pack.name}"`).join(', ')} could not be loaded:\n${errors.map(error => `- ${error}`).join('\n')}`);
+    }
+
+    const registry = new TableRegistry();
+    for (const [name, table] of tables) {
+      registry.register(name, table);
+    }
+
+    return { packs: packs.map(pack => pack.name), shipTypes: shipTypes!, tables: registry };
+  }
+
+  /**
+   * Validates one table: its dice, its outcome keys and the range of rolls they cover
+   */
+  private static validateTable(path: string, table: unknown, validateOutcome: (outcome: unknown) => string[]): string[] {
+    if (!this.isObject(table)) {
+      return [`${path}: must be an object with "sides" and "outcomes"`];
+    }
+
+    const errors: string[] = [];
+    const { sides, quantity = 1, outcomes } = table as RawTable;
+
+    if (!Number.isInteger(sides) || (sides as number) < 1) {
+      errors.push(`${path}.sides: must be a whole number of at least 1`);
+    }
+    if (!Number.isInteger(quantity) || (quantity as number) < 1) {
+      errors.push(`${path}.quantity: must be a whole number of at least 1`);
+    }
+    if (!this.isObject(outcomes) || Object.keys(outcomes).length === 0) {
+      errors.push(`${path}.outcomes: must be an object with at least one outcome`);
+      return errors;
+    }
+
+    const ranges: Array<{ key: string; min: number; max?: number }> = [];
+    for (const [key, outcome] of Object.entries(outcomes)) {
+      const range = this.parseKey(key);
+      if (!range) {
+        errors.push(`${path}.outcomes.${key}: key must be a threshold ("85") or a range ("85-94")`);
+        continue;
+      }
+      ranges.push({ key, ...range });
+      errors.push(...validateOutcome(outcome).map(error => `${path}.outcomes.${key}: ${error}`));
+    }
+
+    if (errors.length > 0) return errors;
+
+    // Check the keys against the rolls the dice can make
+    const minValue = ranges.some(range => range.min === 0) ? 0 : 1;
+    const minPossible = minValue * (quantity as number);
+    const maxPossible = (minValue + (sides as number) - 1) * (quantity as number);
+    ranges.sort((a, b) => a.min - b.min);
+
+    if (ranges[0].min !== minPossible) {
+      errors.push(`${path}.outcomes: needs an entry at the minimum roll (${minPossible}), but the lowest is ${ranges[0].min}`);
+    }
+
+    ranges.forEach((range, index) => {
+      const next = ranges[index + 1];
+
+      if (range.min > maxPossible || (range.max !== undefined && range.max > maxPossible)) {
+        errors.push(`${path}.outcomes.${range.key}: outside the possible rolls (${minPossible}-${maxPossible})`);
+      }
+      if (range.max !== undefined && range.max < range.min) {
+        errors.push(`${path}.outcomes.${range.key}: range ends before it starts`);
+      }
+      if (next && next.min === range.min) {
+        errors.push(`${path}.outcomes: "${range.key}" and "${next.key}" both start at ${range.min}`);
+      } else if (next && range.max !== undefined && range.max >= next.min) {
+        errors.push(`${path}.outcomes: "${range.key}" overlaps "${next.key}"`);
+      } else if (next && range.max !== undefined && range.max < next.min - 1) {
+        errors.push(`${path}.outcomes: ${this.formatRolls(range.max + 1, next.min - 1)} between "${range.key}" and "${next.key}" have no outcome`);
+      } else if (!next && range.max !== undefined && range.max < maxPossible) {
+        errors.push(`${path}.outcomes: ${this.formatRolls(range.max + 1, maxPossible)} after "${range.key}" have no outcome`);
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * Checks a ship type has what at least one ruleset needs: "decks" for Shipbreakers,
+   * or "minDecks" and "maxDecks" for Dead Planet
+   */
+  private static validateShipType(outcome: unknown): string[] {
+    if (!this.isObject(outcome)) {
+      return ['must be an object with "name" and either "decks" or "minDecks" and "maxDecks"'];
+    }
+
+    const errors: string[] = [];
+    if (typeof outcome.name !== 'string' || outcome.name.trim() === '') {
+      errors.push('"name" must be a non-empty string');
+    }
+
+    const hasDeckRange = outcome.minDecks !== undefined || outcome.maxDecks !== undefined;
+    if (outcome.decks === undefined && !hasDeckRange) {
+      errors.push('needs "decks", or "minDecks" and "maxDecks"');
+    }
+    if (hasDeckRange) {
+      for (const field of ['minDecks', 'maxDecks']) {
+        const value = outcome[field];
+        if (!Number.isInteger(value) || (value as number) < 1) {
+          errors.push(`"${field}" must be a whole number of at least 1`);
+        }
+      }
+      if (Number.isInteger(outcome.minDecks) && Number.isInteger(outcome.maxDecks) && (outcome.maxDecks as number) < (outcome.minDecks as number)) {
+        errors.push('"maxDecks" must not be less than "minDecks"');
+      }
+    }
+
+    for (const field of ['decks', 'roomsPerDeck', 'width']) {
+      const notation = outcome[field];
+      if (notation === undefined) continue;
+      if (typeof notation !== 'string') {
+        errors.push(`"${field}" must be dice notation, such as "2d6"`);
+        continue;
+      }
+      try {
+        Dice.parseDiceNotation(notation);
+      } catch (error) {
+        errors.push(`"${field}": ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    if (outcome.hull !== undefined && (typeof outcome.hull !== 'string' || !HullTemplates.isHullTemplateName(outcome.hull))) {
+      errors.push(`"hull" must be one of ${HullTemplates.getNames().join(', ')}`);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Reads an outcome key: "85" (a threshold) or "85-94" (an inclusive range)
+   */
+  private static parseKey(key: string): { min: number; max?: number } | null {
+    const match = key.trim().match(/^(\d+)(?:\s*-\s*(\d+))?$/);
+    if (!match) return null;
+    return {
+      min: parseInt(match[1], 10),
+      max: match[2] !== undefined ? parseInt(match[2], 10) : undefined
+    };
+  }
+
+  /**
+   * Converts a validated table to an outcome table keyed by threshold
+   */
+  private static toOutcomeTable<T>(table: RawTable): OutcomeTable<T> {
+    const outcomes: Record<number, T> = {};
+    for (const [key, outcome] of Object.entries(table.outcomes as Record<string, T>)) {
+      outcomes[this.parseKey(key)!.min] = outcome;
+    }
+
+    return Dice.createOutcomeTable<T>(table.sides as number, (table.quantity as number | undefined) ?? 1, outcomes);
+  }
+
+  private static formatRolls(min: number, max: number): string {
+    return min === max ? `roll ${min}` : `rolls ${min}-${max}`;
+  }
+
+  private static isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
@@ -0,0 +1,84 @@
+import type { OutcomeTable } from './dice';
+
+/**
+ * The result of rolling on a named table, with any tables it referenced
+ * For example, rolling on "cargo" might give:
+ * { table: "cargo", roll: 80, text: "7 Containers of Random Cargo",
+ *   children: [{ table: "randomCargo", roll: 32, text: "Garden Gnomes (Full of Illegal Stimulants)", children: [] }] }
+ */
+export interface TableResolution {
+  table: string;                  // The name of the table that was rolled on
+  roll: number;                   // The value rolled on the table
+  outcome: string;                // The raw outcome, before dice and references were resolved
+  text: string;                   // The outcome with dice rolled and references replaced
+  children: TableResolution[];    // The tables the outcome referenced, in order
+  label?: string;                 // The label the reference was written with, if any
+}
+
+/**
+ * Matches a table reference in an outcome: [[tableName]] or [[tableName|label]]
+ * Without a label the reference is replaced by the referenced table's result.
+ * With a label the label is kept in the text, and the result is only shown in the resolution tree.
+ */
+export const TABLE_REFERENCE_REGEX = /\[\[([^\]|]+)(?:\|([^\]]*))?\]\]/g;
+
+/**
+ * A named collection of outcome tables that outcomes can reference
+ * Example usage:
+ * const registry = new TableRegistry();
+ * registry.register('randomCargo', randomCargoTable);
+ * registry.register('cargo', cargoTable); // cargo outcomes can now contain [[randomCargo]]
+ * dice.rollOnTable('cargo', registry);
+ */
+export class TableRegistry {
+  private tables = new Map<string, OutcomeTable<string>>();
+
+  /**
+   * Adds a table under a name
+   * @throws Error if the name is already taken
+   */
+  public register(name: string, table: OutcomeTable<string>): void {
+    if (this.tables.has(name)) {
+      throw new Error(`A table named "${name}" is already registered`);
+    }
+    this.tables.set(name, table);
+  }
+
+  public has(name: string): boolean {
+    return this.tables.has(name);
+  }
+
+  /**
+   * Gets a table by name
+   * @throws Error if no table has that name
+   */
+  public get(name: string): OutcomeTable<string> {
+    const table = this.tables.get(name);
+    if (!table) {
+      throw new Error(`Unknown table: "${name}"`);
+    }
+    return table;
+  }
+
+  public getNames(): string[] {
+    return Array.from(this.tables.keys());
+  }
+
+  /**
+   * Formats a resolution as a single line, following each labelled reference
+   * e.g. "7 Containers of Random Cargo → Garden Gnomes (Full of Illegal Stimulants)"
+   */
+  public static describe(resolution: TableResolution): string {
+    return [resolution.text, ...this.getLabelledResults(resolution)].join(' → ');
+  }
+
+  /**
+   * Describes the labelled references below a resolution.
+   * Unlabelled references are already part of the text, so only their own labelled references are added.
+   */
+  private static getLabelledResults(resolution: TableResolution): string[] {
+    return resolution.children.flatMap(child =>
+      child.label !== undefined ? [this.describe(child)] : this.getLabelledResults(child)
+    );
+  }
+}
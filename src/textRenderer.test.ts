@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { PRNG } from './prng';
+import { ShipGenerator } from './shipGenerator';
+import { TextRenderer, type TextMapCharset } from './textRenderer';
+import type { DungeonGraph, ShipTypeDefinition } from './types';
+
+// A small Mining Frigate whose layout has a room two decks tall
+const SHIP_TYPE: ShipTypeDefinition = { name: 'Mining Frigate', decks: '2d6', hull: 'hammerhead', width: '4d4' };
+const SEED = 'text-map-10';
+
+/**
+ * Generates the ship, with a maintenance shaft added between two rooms that don't touch,
+ * which the map can't draw on a wall
+ */
+const generateShip = (): DungeonGraph => {
+  const ship = new ShipGenerator(new PRNG(SEED)).generateShipFromType(SHIP_TYPE, { ruleset: 'shipbreakers' });
+  const rooms = ship.rooms.filter(room => room.kind !== 'corridor');
+  const first = rooms[0];
+  const last = rooms[rooms.length - 1];
+  return { ...ship, links: [...ship.links, { source: first, target: last, type: 'maintenance-shaft' }] };
+};
+
+const render = (ship: DungeonGraph, charset: TextMapCharset) => {
+  const renderer = new TextRenderer();
+  renderer.setRenderSecondaryConnections(true);
+  renderer.setCharset(charset);
+  return renderer.render(ship);
+};
+
+describe('TextRenderer', () => {
+  it('draws the test ship with a tall room and a link it can\'t show', () => {
+    const ship = generateShip();
+    expect(ship.rooms.some(room => (room.footprint?.height ?? 1) > 1)).toBe(true);
+    expect(render(ship, 'unicode')).toContain('(not shown)');
+  });
+
+  it.each(['unicode', 'ascii'] as const)('matches the snapshot in %s', (charset) => {
+    expect(render(generateShip(), charset)).toMatchSnapshot();
+  });
+
+  it('draws the same ship the same way every time', () => {
+    expect(render(generateShip(), 'unicode')).toBe(render(generateShip(), 'unicode'));
+  });
+});
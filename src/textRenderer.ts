@@ -0,0 +1,262 @@
+import type { DoorPlacement, DungeonGraph, ExteriorFeatureType, LinkType, RoomLink, RoomNode } from './types';
+import { DUNGEON_CONSTANTS } from './constants';
+import { RoomFootprints } from './roomFootprint';
+import { EXTERIOR_FEATURE_NAMES } from './exteriorFeatures';
+import { RoomStyles, type RoomLabelMode } from './roomStyles';
+
+/**
+ * The characters a text map is drawn with: box-drawing characters, or plain ASCII
+ * for places that can't show them
+ */
+export type TextMapCharset = 'unicode' | 'ascii';
+
+interface TextMapGlyphs {
+  // Wall junctions, indexed by the walls meeting there: up 1, down 2, left 4, right 8
+  junctions: string[];
+  horizontal: string;
+  vertical: string;
+  corridor: string;
+  links: Record<Exclude<LinkType, 'door'>, string>;
+  exteriorFeatures: Record<ExteriorFeatureType, string>;
+}
+
+const TEXT_MAP_GLYPHS: Record<TextMapCharset, TextMapGlyphs> = {
+  unicode: {
+    junctions: [' ', '│', '│', '│', '─', '┘', '┐', '┤', '─', '└', '┌', '├', '─', '┴', '┬', '┼'],
+    horizontal: '─',
+    vertical: '│',
+    corridor: '░',
+    links: { 'lift': '⇕', 'ladder': '╫', 'hatch': '○', 'maintenance-shaft': '≈', 'secondary': '╳' },
+    exteriorFeatures: { 'airlock': '◙', 'docking-collar': '⊕', 'escape-pods': '∴' }
+  },
+  ascii: {
+    junctions: [' ', '|', '|', '|', '-', '+', '+', '+', '-', '+', '+', '+', '-', '+', '+', '+'],
+    horizontal: '-',
+    vertical: '|',
+    corridor: '.',
+    links: { 'lift': 'L', 'ladder': 'H', 'hatch': 'o', 'maintenance-shaft': '~', 'secondary': 'x' },
+    exteriorFeatures: { 'airlock': '@', 'docking-collar': '#', 'escape-pods': '*' }
+  }
+};
+
+const LINK_NAMES: Record<Exclude<LinkType, 'door'>, string> = {
+  'lift': 'Lift',
+  'ladder': 'Ladder',
+  'hatch': 'Hatch',
+  'maintenance-shaft': 'Maintenance shaft',
+  'secondary': 'Secondary connection'
+};
+
+// Each cell is this many characters wide inside its walls (enough for "ENGS 27") and one line tall
+const CELL_WIDTH = 7;
+const CELL_STRIDE = CELL_WIDTH + 1;
+const ROW_STRIDE = 2;
+
+/**
+ * Draws ships as plain-text maps, for sharing over text chat or keeping in notes
+ *
+ * Each grid cell is a box with the room's label inside. Doors are gaps in the walls,
+ * vertical connectors and secondary links are glyphs on the wall they cross, and
+ * exterior features sit on the hull. Deck numbers run down the left margin and a key
+ * follows the map. The same ship and options always give the same text.
+ */
+export class TextRenderer {
+  private renderSecondaryConnections: boolean = false;
+  private roomLabels: RoomLabelMode = 'both';
+  private charset: TextMapCharset = 'unicode';
+
+  public setRenderSecondaryConnections(render: boolean): void {
+    this.renderSecondaryConnections = render;
+  }
+
+  /**
+   * Chooses what room labels show: type and number (the default), just the type, or just the number
+   */
+  public setRoomLabels(mode: RoomLabelMode): void {
+    this.roomLabels = mode;
+  }
+
+  public setCharset(charset: TextMapCharset): void {
+    this.charset = charset;
+  }
+
+  /**
+   * Draws a ship as a text map with its key
+   */
+  render(graph: DungeonGraph): string {
+    const glyphs = TEXT_MAP_GLYPHS[this.charset];
+    const cellSize = DUNGEON_CONSTANTS.CELL_SIZE;
+    const bounds = (room: RoomNode) => RoomFootprints.getBounds(room, cellSize);
+
+    // Which room or corridor covers each cell
+    const width = Math.max(graph.width ?? 0, ...graph.rooms.map((room) => bounds(room).x + bounds(room).width));
+    const height = Math.max(graph.height ?? 0, ...graph.rooms.map((room) => bounds(room).y + bounds(room).height));
+    const owners: Array<Array<RoomNode | null>> = Array.from({ length: height }, () => Array(width).fill(null));
+    for (const room of graph.rooms) {
+      for (const cell of RoomFootprints.getCells(room, cellSize)) {
+        owners[cell.y][cell.x] = room;
+      }
+    }
+    const owner = (x: number, y: number) => owners[y]?.[x] ?? null;
+
+    // Walls run wherever neighbouring cells belong to different rooms
+    const hasWallAbove = (x: number, y: number) => owner(x, y - 1) !== owner(x, y);
+    const hasWallLeft = (x: number, y: number) => owner(x - 1, y) !== owner(x, y);
+
+    const canvas = Array.from({ length: height * ROW_STRIDE + 1 }, () => Array(width * CELL_STRIDE + 1).fill(' '));
+    const write = (row: number, column: number, text: string) => {
+      Array.from(text).forEach((char, i) => { canvas[row][column + i] = char; });
+    };
+
+    for (let y = 0; y <= height; y++) {
+      for (let x = 0; x <= width; x++) {
+        const row = y * ROW_STRIDE;
+        const column = x * CELL_STRIDE;
+
+        // Corridors are shaded
+        if (owner(x, y)?.kind === 'corridor') {
+          write(row + 1, column + 1, glyphs.corridor.repeat(CELL_WIDTH));
+        }
+        if (x < width && hasWallAbove(x, y)) {
+          write(row, column + 1, glyphs.horizontal.repeat(CELL_WIDTH));
+        }
+        if (y < height && hasWallLeft(x, y)) {
+          write(row + 1, column, glyphs.vertical);
+        }
+
+        const junction = (y > 0 && hasWallLeft(x, y - 1) ? 1 : 0) | (y < height && hasWallLeft(x, y) ? 2 : 0) |
+          (x > 0 && hasWallAbove(x - 1, y) ? 4 : 0) | (x < width && hasWallAbove(x, y) ? 8 : 0);
+        write(row, column, glyphs.junctions[junction]);
+      }
+    }
+
+    // Labels go in the middle of each room's footprint
+    for (const room of graph.rooms.filter((room) => room.kind !== 'corridor')) {
+      const { x, y, width: roomWidth, height: roomHeight } = bounds(room);
+      const space = roomWidth * CELL_STRIDE - 1;
+      const label = this.fitLabel(room, space);
+      write(y * ROW_STRIDE + roomHeight, x * CELL_STRIDE + 1 + Math.floor((space - label.length) / 2), label);
+    }
+
+    // Mark each link on the wall it crosses, and note any that don't cross one
+    const unplaced: RoomLink[] = [];
+    const links = graph.links.filter((link) => link.type !== 'secondary' || this.renderSecondaryConnections);
+    for (const link of links) {
+      const edge = link.door ?? this.findSharedEdge(link.source, link.target, owner);
+      if (!edge) {
+        unplaced.push(link);
+        continue;
+      }
+      this.markEdge(canvas, edge, link.type === 'door' ? ' ' : glyphs.links[link.type]);
+    }
+    for (const feature of graph.exteriorFeatures || []) {
+      this.markEdge(canvas, feature.position, glyphs.exteriorFeatures[feature.type]);
+    }
+
+    // Deck numbers in the margin, on the line through each deck
+    const margin = `D${height}`.length + 1;
+    const map = canvas.map((line, row) => {
+      const deck = row % ROW_STRIDE === 1 ? `D${(row - 1) / ROW_STRIDE + 1}` : '';
+      return (deck.padEnd(margin) + line.join('')).trimEnd();
+    });
+
+    return [...map, '', ...this.renderKey(graph, links, unplaced, glyphs)].join('\n');
+  }
+
+  /**
+   * Shortens a label to fit its room: without the space, then just the room number
+   */
+  private fitLabel(room: RoomNode, space: number): string {
+    const label = RoomStyles.getLabel(room, this.roomLabels);
+    if (label.length <= space) return label;
+    if (label.replace(' ', '').length <= space) return label.replace(' ', '');
+    return String(room.id).slice(0, space);
+  }
+
+  /**
+   * Finds a wall between two rooms, for links placed without a door
+   */
+  private findSharedEdge(
+    source: RoomNode,
+    target: RoomNode,
+    owner: (x: number, y: number) => RoomNode | null
+  ): DoorPlacement | null {
+    const steps = { north: [0, -1], south: [0, 1], west: [-1, 0], east: [1, 0] } as const;
+
+    for (const cell of RoomFootprints.getCells(source, DUNGEON_CONSTANTS.CELL_SIZE)) {
+      for (const [side, [dx, dy]] of Object.entries(steps) as Array<[DoorPlacement['side'], readonly [number, number]]>) {
+        if (owner(cell.x + dx, cell.y + dy) === target) {
+          return { x: cell.x, y: cell.y, side };
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Puts a glyph in the middle of the wall on one side of a cell
+   * Walls across a deck have room for a space either side, so doors are a wide gap.
+   */
+  private markEdge(canvas: string[][], edge: DoorPlacement, glyph: string) {
+    const row = edge.y * ROW_STRIDE + 1;
+    const column = edge.x * CELL_STRIDE + 1 + Math.floor(CELL_WIDTH / 2);
+
+    switch (edge.side) {
+      case 'north':
+      case 'south': {
+        const wallRow = edge.side === 'north' ? row - 1 : row + 1;
+        canvas[wallRow].splice(column - 1, 3, ' ', glyph, ' ');
+        break;
+      }
+      case 'west':
+        canvas[row][edge.x * CELL_STRIDE] = glyph;
+        break;
+      case 'east':
+        canvas[row][(edge.x + 1) * CELL_STRIDE] = glyph;
+        break;
+    }
+  }
+
+  /**
+   * Lists what the codes and glyphs on the map mean, for the things on this ship
+   */
+  private renderKey(graph: DungeonGraph, links: RoomLink[], unplaced: RoomLink[], glyphs: TextMapGlyphs): string[] {
+    const entry = (symbol: string, meaning: string) => `${symbol.padEnd(6)}${meaning}`;
+    const lines = ['Key'];
+
+    // Room types by code, or each room by number when the map only shows numbers
+    if (this.roomLabels === 'ids') {
+      graph.rooms
+        .filter((room) => room.kind !== 'corridor' && room.type)
+        .forEach((room) => lines.push(entry(String(room.id), room.type!)));
+    } else {
+      RoomStyles.getLegendTypes(graph.rooms)
+        .forEach((type) => lines.push(entry(RoomStyles.get(type).abbreviation, type)));
+    }
+
+    if (graph.rooms.some((room) => room.kind === 'corridor')) {
+      lines.push(entry(glyphs.corridor, 'Corridor'));
+    }
+    if (links.some((link) => link.type === 'door')) {
+      lines.push(entry('', 'Doors are gaps in the walls'));
+    }
+    for (const type of Object.keys(LINK_NAMES) as Array<keyof typeof LINK_NAMES>) {
+      if (links.some((link) => link.type === type)) {
+        lines.push(entry(glyphs.links[type], LINK_NAMES[type]));
+      }
+    }
+    for (const type of Object.keys(EXTERIOR_FEATURE_NAMES) as ExteriorFeatureType[]) {
+      if ((graph.exteriorFeatures || []).some((feature) => feature.type === type)) {
+        lines.push(entry(glyphs.exteriorFeatures[type], EXTERIOR_FEATURE_NAMES[type]));
+      }
+    }
+
+    // Links between rooms that don't touch can't be drawn on a wall
+    unplaced.forEach((link) => {
+      const name = link.type === 'door' ? 'Door' : LINK_NAMES[link.type];
+      lines.push(`${name} between ${link.source.id} and ${link.target.id} (not shown)`);
+    });
+
+    return lines;
+  }
+}
@@ -1,4 +1,7 @@
 import type { SimulationNodeDatum } from 'd3';
+import type { RollEvent } from './rollLog';
+import type { RoomTypeScore } from './roomTypeOptimizer';
+import type { ConstraintViolation } from './roomConstraints';
 
 export interface RoomNode {
   id: number;
@@ -7,17 +10,113 @@ export interface RoomNode {
   name: string;
   type?: RoomType;
   size?: number;
+  footprint?: RoomFootprint;
+  kind?: NodeKind; // Defaults to 'room'
 }
 
+/**
+ * What a node in the ship graph represents.
+ * Corridors are walkable cells (the access spine and hallways) that
+ * rooms open onto; they never receive a room type.
+ */
+export type NodeKind = 'room' | 'corridor';
+
+/**
+ * The rectangular area a room covers, measured in grid cells.
+ * Width spans cells along a deck, height spans decks.
+ * Rooms without a footprint occupy a single cell.
+ */
+export interface RoomFootprint {
+  width: number;
+  height: number;
+}
+
+export type DoorSide = 'north' | 'south' | 'east' | 'west';
+
+/**
+ * The position of a door on the edge shared by two rooms.
+ * x and y are the grid cell on the source room's side of the door,
+ * side is the edge of that cell the door sits on.
+ */
+export interface DoorPlacement {
+  x: number;
+  y: number;
+  side: DoorSide;
+}
+
+/**
+ * The ways of moving between decks:
+ * - lift: a powered car in a shaft at the spine, spanning several decks
+ * - ladder: a climb between neighbouring spine cells
+ * - hatch: a floor hatch between two stacked rooms
+ * - maintenance-shaft: a crawlspace joining two rooms along the outer hull
+ */
+export type VerticalConnectorType = 'lift' | 'ladder' | 'hatch' | 'maintenance-shaft';
+
+export type LinkType = 'door' | 'secondary' | VerticalConnectorType;
+
 export interface RoomLink {
   source: RoomNode;
   target: RoomNode;
-  type: 'door' | 'secondary';
+  type: LinkType;
+  door?: DoorPlacement;
+}
+
+export type ExteriorFeatureType = 'airlock' | 'docking-collar' | 'escape-pods';
+
+/**
+ * A feature on the outside of the hull, such as an airlock.
+ * The position is the room cell the feature opens from and the
+ * edge of that cell that faces open space.
+ */
+export interface ExteriorFeature {
+  type: ExteriorFeatureType;
+  room: RoomNode;
+  position: DoorPlacement;
+}
+
+/**
+ * How the repair pass joined two disconnected parts of a ship:
+ * - door: the parts already shared a wall, so a door (or hatch) was added
+ * - corridor: junctions were laid through empty hull cells from one part to the other
+ * - maintenance-shaft: no corridor could get through, so a shaft was routed through the hull
+ */
+export type RepairType = 'door' | 'corridor' | 'maintenance-shaft';
+
+export interface ConnectivityRepair {
+  type: RepairType;
+  links: RoomLink[]; // The links added to join the parts
+  addedNodes?: RoomNode[]; // The junctions added between them, if any
+  route?: Array<{ x: number; y: number }>; // The cells a maintenance shaft runs through between its rooms
 }
 
 export interface DungeonGraph {
   rooms: RoomNode[];
   links: RoomLink[];
+  width?: number; // Grid width in cells
+  height?: number; // Grid height in cells (number of decks)
+  exteriorFeatures?: ExteriorFeature[];
+  repairs?: ConnectivityRepair[]; // Filled in by the connectivity repair pass
+  rollLog?: RollEvent[]; // Every dice roll made while generating the ship, in order
+  roomTypeScore?: RoomTypeScore; // How well the room types fit the placement rules, once optimised
+  constraintViolations?: ConstraintViolation[]; // Room type constraints the ship could not meet
+  unplacedRooms?: number; // Rooms rolled for the ship that didn't fit in its hull, even moved down a deck
+}
+
+/**
+ * A ship type rolled from a ship type table
+ * Which fields are needed depends on the ruleset: Shipbreakers rolls the
+ * deck count from `decks`, Dead Planet picks it from `minDecks`-`maxDecks`
+ * and rolls each deck's rooms from `roomsPerDeck`.
+ */
+export interface ShipTypeDefinition {
+  name: string;
+  decks?: string;        // Dice expression for the number of decks
+  minDecks?: number;
+  maxDecks?: number;
+  roomsPerDeck?: string; // Dice expression for the number of rooms on each deck
+  hull?: import('./hullTemplates').HullTemplateName;
+  width?: string;        // Dice expression for the ship width in cells
 }
 
 export interface GenerationConfig {
@@ -34,6 +133,11 @@ export interface GenerationConfig {
   roomsPerDeckArray?: number[];
   randomizeRoomsPerDeck?: boolean;
   shipTypeName?: string;
+  hullTemplate?: import('./hullTemplates').HullTemplateName;
+  shipWidth?: number; // Ship width in cells
+  aspectRatio?: number; // Ship width per deck, used when no explicit width is given
+  corridors?: boolean; // Lay out an access spine and hallways (defaults to true)
+  ruleset?: import('./rulesets').RulesetName; // Rules for deck and room counts (defaults to Shipbreakers)
 }
 
 export interface NavigationGridData {